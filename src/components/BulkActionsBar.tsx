@@ -0,0 +1,85 @@
+import { Download, FileJson, FileText, FileType, FolderInput, Tag, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface BulkActionsBarProps {
+  count: number;
+  folders: { id: string; name: string }[];
+  onMove: (folderId: string | null) => void;
+  onTag: () => void;
+  onExport: (fileFormat: "pdf" | "docx" | "json") => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+/** Actions for the resumes selected on the Dashboard, pinned to the bottom of the screen. */
+const BulkActionsBar = ({ count, folders, onMove, onTag, onExport, onDelete, onClear }: BulkActionsBarProps) => (
+  <div className="fixed inset-x-0 bottom-6 z-40 flex justify-center px-4">
+    <div className="flex items-center gap-1 rounded-full border border-border bg-card px-3 py-2 shadow-card">
+      <span className="px-2 text-sm font-medium">{count} selected</span>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost">
+            <FolderInput className="w-4 h-4 mr-2" />
+            Move
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center">
+          {folders.map((folder) => (
+            <DropdownMenuItem key={folder.id} onClick={() => onMove(folder.id)}>
+              {folder.name}
+            </DropdownMenuItem>
+          ))}
+          {folders.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onClick={() => onMove(null)}>No folder</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button size="sm" variant="ghost" onClick={onTag}>
+        <Tag className="w-4 h-4 mr-2" />
+        Tag
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost">
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center">
+          <DropdownMenuItem onClick={() => onExport("pdf")}>
+            <FileText className="w-4 h-4 mr-2" />
+            PDF documents
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onExport("docx")}>
+            <FileType className="w-4 h-4 mr-2" />
+            Word documents (.docx)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onExport("json")}>
+            <FileJson className="w-4 h-4 mr-2" />
+            JSON Resume (.json)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button size="sm" variant="ghost" className="text-destructive hover:text-destructive" onClick={onDelete}>
+        <Trash2 className="w-4 h-4 mr-2" />
+        Delete
+      </Button>
+
+      <Button size="sm" variant="ghost" onClick={onClear} aria-label="Clear selection">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  </div>
+);
+
+export default BulkActionsBar;
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Crown, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export interface DuplicateOptions {
+  title: string;
+  templateId: string;
+}
+
+interface TemplateOption {
+  id: string;
+  name: string;
+  is_premium: boolean | null;
+}
+
+interface DuplicateResumeDialogProps {
+  /** The resume being copied; the dialog is open while set. */
+  resume: { title: string; template_id: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onDuplicate: (options: DuplicateOptions) => Promise<void>;
+}
+
+const DuplicateResumeDialog = ({ resume, onOpenChange, onDuplicate }: DuplicateResumeDialogProps) => {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [templateId, setTemplateId] = useState("");
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!resume) return;
+    setTitle(`${resume.title} (Copy)`);
+    setTemplateId(resume.template_id);
+  }, [resume]);
+
+  useEffect(() => {
+    if (!resume || templates.length > 0) return;
+    supabase
+      .from("resume_templates")
+      .select("id, name, is_premium")
+      .order("name")
+      .then(({ data }) => setTemplates(data ?? []));
+  }, [resume, templates.length]);
+
+  const duplicate = async () => {
+    setIsSaving(true);
+    try {
+      await onDuplicate({ title: title.trim() || resume.title, templateId });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to duplicate resume",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The current template may not be in the gallery, e.g. one that was retired.
+  const options = templates.some((template) => template.id === resume?.template_id) || !resume
+    ? templates
+    : [{ id: resume.template_id, name: resume.template_id.replace("-", " "), is_premium: false }, ...templates];
+
+  return (
+    <Dialog open={!!resume} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Duplicate resume</DialogTitle>
+          <DialogDescription>
+            Make an independent copy with all of its content. You can switch to a different template for the copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-title">Title</Label>
+            <Input
+              id="duplicate-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && !isSaving && duplicate()}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-template">Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger id="duplicate-template" className="capitalize">
+                <SelectValue placeholder="Choose a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((template) => (
+                  <SelectItem key={template.id} value={template.id} className="capitalize">
+                    <span className="flex items-center">
+                      {template.name}
+                      {template.is_premium && <Crown className="w-3 h-3 ml-2 text-accent" />}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={duplicate} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Duplicate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateResumeDialog;
@@ -0,0 +1,143 @@
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileArchive, FileJson, FileText, Loader2, type LucideIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { readJsonResumeFile } from "@/lib/import/jsonResume";
+import { readLinkedInArchive } from "@/lib/import/linkedIn";
+import { readResumeDocumentFile, type ImportReport } from "@/lib/import/resumeText";
+import type { ResumeContent } from "@/lib/resume";
+
+export interface ImportedResume {
+  title: string;
+  content: ResumeContent;
+  /** Present when fields were guessed and should be reviewed. */
+  report?: ImportReport;
+}
+
+interface ImportSource {
+  id: string;
+  label: string;
+  description: string;
+  accept: string;
+  icon: LucideIcon;
+  read: (file: File) => Promise<ImportedResume>;
+}
+
+const sources: ImportSource[] = [
+  {
+    id: "document",
+    label: "PDF or Word document",
+    description: "An existing resume file. We detect your details and flag anything uncertain.",
+    accept: ".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    icon: FileText,
+    read: readResumeDocumentFile,
+  },
+  {
+    id: "linkedin",
+    label: "LinkedIn data export",
+    description: "The ZIP from LinkedIn's \"Download your data\" page (Settings → Data privacy).",
+    accept: ".zip,application/zip",
+    icon: FileArchive,
+    read: readLinkedInArchive,
+  },
+  {
+    id: "json-resume",
+    label: "JSON Resume",
+    description: "A resume.json file following the jsonresume.org schema.",
+    accept: ".json,application/json",
+    icon: FileJson,
+    read: readJsonResumeFile,
+  },
+];
+
+interface ImportResumeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (resume: ImportedResume) => Promise<void>;
+}
+
+const ImportResumeDialog = ({ open, onOpenChange, onImport }: ImportResumeDialogProps) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<ImportSource>(sources[0]);
+  const [busySource, setBusySource] = useState<string | null>(null);
+
+  const pickFile = (next: ImportSource) => {
+    setSource(next);
+    // Wait for the `accept` attribute to update before opening the picker.
+    requestAnimationFrame(() => inputRef.current?.click());
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setBusySource(source.id);
+    try {
+      await onImport(await source.read(file));
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read the selected file.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusySource(null);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import a resume</DialogTitle>
+          <DialogDescription>
+            Create a new resume from an existing file. Files are read in your browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {sources.map((item) => {
+            const IconComponent = item.icon;
+            return (
+              <button
+                key={item.id}
+                type="button"
+                disabled={busySource !== null}
+                onClick={() => pickFile(item)}
+                className="w-full flex items-start gap-4 rounded-lg border border-border p-4 text-left transition-colors hover:bg-muted disabled:opacity-50"
+              >
+                {busySource === item.id ? (
+                  <Loader2 className="w-6 h-6 mt-0.5 text-primary animate-spin" />
+                ) : (
+                  <IconComponent className="w-6 h-6 mt-0.5 text-primary" />
+                )}
+                <div>
+                  <p className="font-semibold text-foreground">{item.label}</p>
+                  <p className="text-sm text-muted-foreground">{item.description}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept={source.accept}
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportResumeDialog;
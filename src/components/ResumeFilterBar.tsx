@@ -0,0 +1,196 @@
+import { useState, type ReactNode } from "react";
+import { Folder, FolderPlus, Search, Tag, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { defaultResumeFilters, type ResumeFilters, type ResumeSort } from "@/lib/resume";
+import { cn } from "@/lib/utils";
+
+const sortLabels: Record<ResumeSort, string> = {
+  updated: "Last updated",
+  created: "Recently created",
+  title: "Title (A–Z)",
+  template: "Template",
+};
+
+interface ResumeFilterBarProps {
+  filters: ResumeFilters;
+  onChange: (filters: ResumeFilters) => void;
+  folders: { id: string; name: string }[];
+  /** Every tag in use, for the tag chips. */
+  tags: string[];
+  onCreateFolder: (name: string) => Promise<void>;
+  onDeleteFolder: (id: string) => void;
+  selectedCount: number;
+  visibleCount: number;
+  onToggleSelectAll: () => void;
+}
+
+const Chip = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={cn(
+      "inline-flex items-center rounded-full border px-3 py-1 text-sm transition-colors",
+      active
+        ? "border-primary bg-primary text-primary-foreground"
+        : "border-border bg-background text-foreground hover:bg-muted"
+    )}
+  >
+    {children}
+  </button>
+);
+
+const ResumeFilterBar = ({
+  filters,
+  onChange,
+  folders,
+  tags,
+  onCreateFolder,
+  onDeleteFolder,
+  selectedCount,
+  visibleCount,
+  onToggleSelectAll,
+}: ResumeFilterBarProps) => {
+  const [folderName, setFolderName] = useState("");
+  const [isFolderFormOpen, setIsFolderFormOpen] = useState(false);
+
+  const update = (changes: Partial<ResumeFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleTag = (tag: string) =>
+    update({ tags: filters.tags.includes(tag) ? filters.tags.filter((item) => item !== tag) : [...filters.tags, tag] });
+
+  const createFolder = async () => {
+    const name = folderName.trim();
+    if (!name) return;
+    await onCreateFolder(name);
+    setFolderName("");
+    setIsFolderFormOpen(false);
+  };
+
+  const isFiltered = filters.query || filters.folderId || filters.tags.length > 0;
+
+  return (
+    <div className="mb-6 space-y-3">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center">
+        <div className="flex items-center gap-2 pl-1">
+          <Checkbox
+            id="select-all-resumes"
+            checked={visibleCount > 0 && selectedCount === visibleCount ? true : selectedCount > 0 ? "indeterminate" : false}
+            onCheckedChange={onToggleSelectAll}
+            disabled={visibleCount === 0}
+            aria-label="Select all resumes"
+          />
+        </div>
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search titles and content..."
+            className="pl-9"
+          />
+        </div>
+        <Select value={filters.sort} onValueChange={(sort) => update({ sort: sort as ResumeSort })}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(sortLabels) as ResumeSort[]).map((sort) => (
+              <SelectItem key={sort} value={sort}>
+                {sortLabels[sort]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Folder className="h-4 w-4 text-muted-foreground" />
+        <Chip active={!filters.folderId} onClick={() => update({ folderId: null })}>
+          All folders
+        </Chip>
+        {folders.map((folder) => (
+          <Chip
+            key={folder.id}
+            active={filters.folderId === folder.id}
+            onClick={() => update({ folderId: filters.folderId === folder.id ? null : folder.id })}
+          >
+            {folder.name}
+          </Chip>
+        ))}
+        {filters.folderId && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 text-muted-foreground"
+            onClick={() => onDeleteFolder(filters.folderId)}
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete folder
+          </Button>
+        )}
+        <Popover open={isFolderFormOpen} onOpenChange={setIsFolderFormOpen}>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="ghost" className="h-8">
+              <FolderPlus className="w-4 h-4 mr-1" />
+              New folder
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-72">
+            <div className="flex gap-2">
+              <Input
+                value={folderName}
+                onChange={(e) => setFolderName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && createFolder()}
+                placeholder="Folder name"
+                autoFocus
+              />
+              <Button onClick={createFolder} disabled={!folderName.trim()}>
+                Add
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Tag className="h-4 w-4 text-muted-foreground" />
+          {tags.map((tag) => (
+            <Chip key={tag} active={filters.tags.includes(tag)} onClick={() => toggleTag(tag)}>
+              {tag}
+            </Chip>
+          ))}
+        </div>
+      )}
+
+      {isFiltered && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>
+            {visibleCount} {visibleCount === 1 ? "resume matches" : "resumes match"}
+          </span>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7"
+            onClick={() => onChange({ ...defaultResumeFilters, sort: filters.sort })}
+          >
+            <X className="w-3 h-3 mr-1" />
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResumeFilterBar;
@@ -0,0 +1,33 @@
+import { FileText } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ResumeThumbnailProps {
+  /** Missing while the thumbnail loads or renders. */
+  url?: string;
+  title: string;
+  onClick?: () => void;
+  className?: string;
+}
+
+/** The top of a resume's first page, cropped to fit a Dashboard card. */
+const ResumeThumbnail = ({ url, title, onClick, className }: ResumeThumbnailProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-label={`Open ${title}`}
+    className={cn(
+      "block aspect-[4/3] w-full overflow-hidden rounded-md border border-border bg-muted/40 transition-opacity hover:opacity-90",
+      className
+    )}
+  >
+    {url ? (
+      <img src={url} alt="" loading="lazy" className="h-full w-full object-cover object-top" />
+    ) : (
+      <span className="flex h-full w-full items-center justify-center">
+        <FileText className="w-10 h-10 text-muted-foreground/50" />
+      </span>
+    )}
+  </button>
+);
+
+export default ResumeThumbnail;
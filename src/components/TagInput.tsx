@@ -0,0 +1,73 @@
+import { useState, type KeyboardEvent } from "react";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/** A text field that turns entries into removable tags on Enter or comma. */
+const TagInput = ({ value, onChange, placeholder, className }: TagInputProps) => {
+  const [draft, setDraft] = useState("");
+
+  const addTags = (text: string) => {
+    const existing = new Set(value.map((tag) => tag.toLowerCase()));
+    const added = text
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter((tag) => {
+        if (!tag || existing.has(tag.toLowerCase())) return false;
+        existing.add(tag.toLowerCase());
+        return true;
+      });
+
+    if (added.length > 0) onChange([...value, ...added]);
+    setDraft("");
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTags(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex min-h-10 w-full flex-wrap items-center gap-1.5 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2",
+        className
+      )}
+    >
+      {value.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((item) => item !== tag))}
+            className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+            aria-label={`Remove ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addTags(draft)}
+        placeholder={value.length === 0 ? placeholder : undefined}
+        className="min-w-[8rem] flex-1 bg-transparent outline-none placeholder:text-muted-foreground"
+      />
+    </div>
+  );
+};
+
+export default TagInput;
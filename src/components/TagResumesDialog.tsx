@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import TagInput from "@/components/TagInput";
+
+interface TagResumesDialogProps {
+  /**
+   * The resumes being tagged; the dialog is open while set. A single resume
+   * has its tags edited, several get the entered tags added.
+   */
+  resumes: { title: string; tags: string[] }[] | null;
+  /** Tags already in use, offered as suggestions. */
+  suggestions: string[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (tags: string[]) => void;
+}
+
+const TagResumesDialog = ({ resumes, suggestions, onOpenChange, onSave }: TagResumesDialogProps) => {
+  const [tags, setTags] = useState<string[]>([]);
+  const isBulk = (resumes?.length ?? 0) > 1;
+
+  useEffect(() => {
+    if (resumes) setTags(resumes.length > 1 ? [] : resumes[0].tags);
+  }, [resumes]);
+
+  const unused = suggestions.filter((tag) => !tags.includes(tag));
+
+  const save = () => {
+    onSave(tags);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!resumes} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isBulk ? `Tag ${resumes.length} resumes` : "Edit tags"}</DialogTitle>
+          <DialogDescription>
+            {isBulk
+              ? "These tags are added to every selected resume."
+              : `Tags for "${resumes?.[0].title}". Press Enter or comma to add one.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <TagInput value={tags} onChange={setTags} placeholder="e.g. Engineering, Remote" />
+
+        {unused.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {unused.map((tag) => (
+              <Badge
+                key={tag}
+                variant="outline"
+                className="cursor-pointer hover:bg-muted"
+                onClick={() => setTags([...tags, tag])}
+              >
+                + {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={isBulk && tags.length === 0}>
+            Save tags
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TagResumesDialog;
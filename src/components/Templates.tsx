@@ -1,88 +1,57 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Eye, Star, Crown, Briefcase, Palette } from "lucide-react";
+import { Eye, Star, Crown } from "lucide-react";
 import { useState, useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  createEmptyResumeContent,
+  parseTemplateData,
+  serializeResumeContent,
+  type TemplateData,
+} from "@/lib/resume";
 import { useToast } from "@/hooks/use-toast";
-import template1 from "@/assets/template-1.jpg";
-import template2 from "@/assets/template-2.jpg";
-import template3 from "@/assets/template-3.jpg";
+import TemplatePreview from "@/components/resume/TemplatePreview";
 
-const templates = [
-  {
-    id: "executive-pro",
-    name: "Executive Pro",
-    category: "Executive",
-    preview: template1,
-    isPremium: true,
-    rating: 4.9,
-    downloads: "12K+",
-    icon: Crown,
-    gradient: "from-purple-600 to-blue-600"
-  },
-  {
-    id: "creative-edge",
-    name: "Creative Edge",
-    category: "Creative", 
-    preview: template2,
-    isPremium: false,
-    rating: 4.8,
-    downloads: "8.5K+",
-    icon: Palette,
-    gradient: "from-pink-500 to-orange-500"
-  },
-  {
-    id: "tech-innovator",
-    name: "Tech Innovator",
-    category: "Technology",
-    preview: template3,
-    isPremium: true,
-    rating: 4.9,
-    downloads: "15K+",
-    icon: Briefcase,
-    gradient: "from-cyan-500 to-blue-500"
-  },
-  {
-    id: "modern-minimal",
-    name: "Modern Minimal",
-    category: "Minimalist",
-    preview: template1,
-    isPremium: false,
-    rating: 4.7,
-    downloads: "9.2K+",
-    icon: Star,
-    gradient: "from-green-500 to-teal-500"
-  },
-  {
-    id: "professional-plus",
-    name: "Professional Plus",
-    category: "Business",
-    preview: template3,
-    isPremium: true,
-    rating: 5.0,
-    downloads: "20K+",
-    icon: Crown,
-    gradient: "from-indigo-600 to-purple-600"
-  },
-  {
-    id: "designers-choice",
-    name: "Designer's Choice",
-    category: "Creative",
-    preview: template2,
-    isPremium: false,
-    rating: 4.6,
-    downloads: "6.8K+",
-    icon: Palette,
-    gradient: "from-rose-500 to-pink-500"
-  }
-];
+interface FeaturedTemplate {
+  id: string;
+  name: string;
+  category: string;
+  previewUrl: string | null;
+  isPremium: boolean;
+  rating: number;
+  downloads: number;
+  template: TemplateData;
+}
 
 const Templates = () => {
+  const [templates, setTemplates] = useState<FeaturedTemplate[]>([]);
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  useEffect(() => {
+    supabase
+      .from("resume_templates")
+      .select("id, name, category, preview_url, is_premium, rating, downloads, template_data")
+      .order("downloads", { ascending: false })
+      .limit(6)
+      .then(({ data, error }) => {
+        // The section is decorative; without templates it just shows the header.
+        if (error) return;
+        setTemplates(data.map((row) => ({
+          id: row.id,
+          name: row.name,
+          category: row.category,
+          previewUrl: row.preview_url,
+          isPremium: !!row.is_premium,
+          rating: row.rating ?? 0,
+          downloads: row.downloads ?? 0,
+          template: parseTemplateData(row.template_data),
+        })));
+      });
+  }, []);
+
   const useTemplate = async (templateId: string, isPremium: boolean) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -99,18 +68,7 @@ const Templates = () => {
             user_id: user.id,
             title: "New Resume",
             template_id: templateId,
-            content: {
-              personalInfo: {
-                fullName: "",
-                email: "",
-                phone: "",
-                location: "",
-                summary: ""
-              },
-              experience: [],
-              education: [],
-              skills: []
-            }
+            content: serializeResumeContent(createEmptyResumeContent())
           }
         ])
         .select()
@@ -161,7 +119,7 @@ const Templates = () => {
         {/* Templates Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 mb-12">
           {templates.map((template, index) => {
-            const IconComponent = template.icon;
+            const { primary, secondary } = template.template.colors;
             return (
               <Card 
                 key={template.id} 
@@ -171,12 +129,19 @@ const Templates = () => {
                 <CardContent className="p-0">
                   {/* Template Preview */}
                   <div className="relative overflow-hidden aspect-[3/4] bg-gradient-to-br from-muted/50 to-muted">
-                    <img 
-                      src={template.preview} 
-                      alt={`${template.name} resume template`}
-                      className="w-full h-full object-cover"
+                    {template.previewUrl ? (
+                      <img 
+                        src={template.previewUrl} 
+                        alt={`${template.name} resume template`}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <TemplatePreview template={template.template} className="h-full" />
+                    )}
+                    <div
+                      className="absolute inset-0 opacity-20"
+                      style={{ backgroundImage: `linear-gradient(to bottom right, ${primary}, ${secondary})` }}
                     />
-                    <div className={`absolute inset-0 bg-gradient-to-br ${template.gradient} opacity-20`} />
                     
                      {/* Premium Badge */}
                      {template.isPremium && (
@@ -216,7 +181,7 @@ const Templates = () => {
                     
                     <div className="flex items-center justify-between text-sm text-muted-foreground mb-4">
                       <span className="px-2 py-1 bg-muted rounded-full">{template.category}</span>
-                      <span>{template.downloads} downloads</span>
+                      <span>{template.downloads.toLocaleString()}+ downloads</span>
                     </div>
 
                     <Button 
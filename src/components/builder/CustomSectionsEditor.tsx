@@ -0,0 +1,285 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LayoutList, List, Plus, Trash2 } from "lucide-react";
+import {
+  CUSTOM_SECTION_PRESETS,
+  createCustomEntry,
+  createCustomSection,
+  type CustomEntry,
+  type CustomSection,
+} from "@/lib/resume";
+import { customSectionKey } from "@/components/resume/layouts";
+import { useListIds } from "@/hooks/useListIds";
+import { insertAt } from "@/lib/utils";
+import SortableList from "./SortableList";
+
+interface CustomSectionsEditorProps {
+  sections: CustomSection[];
+  onChange: (sections: CustomSection[]) => void;
+  /** Applies a delete and offers to undo it with `restore`. */
+  onRemove: (label: string, sections: CustomSection[], restore: (current: CustomSection[]) => CustomSection[]) => void;
+}
+
+export const AddCustomSectionMenu = ({ onAdd }: { onAdd: (section: CustomSection) => void }) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Section
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel>Presets</DropdownMenuLabel>
+      {CUSTOM_SECTION_PRESETS.map((preset) => (
+        <DropdownMenuItem key={preset.id} onClick={() => onAdd(createCustomSection(preset.title, preset.kind, preset.id))}>
+          {preset.kind === "list" ? <List className="w-4 h-4 mr-2" /> : <LayoutList className="w-4 h-4 mr-2" />}
+          {preset.title}
+        </DropdownMenuItem>
+      ))}
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onClick={() => onAdd(createCustomSection("New Section", "entries"))}>
+        <LayoutList className="w-4 h-4 mr-2" />
+        Blank section with entries
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={() => onAdd(createCustomSection("New List", "list"))}>
+        <List className="w-4 h-4 mr-2" />
+        Blank list
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+const EntryFields = ({ entry, onChange }: { entry: CustomEntry; onChange: (entry: CustomEntry) => void }) => {
+  const update = (field: keyof CustomEntry, value: string) => onChange({ ...entry, [field]: value });
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Title</Label>
+          <Input data-field="title" value={entry.title} onChange={(e) => update("title", e.target.value)} placeholder="Title or role" />
+        </div>
+        <div>
+          <Label>Subtitle</Label>
+          <Input data-field="subtitle" value={entry.subtitle} onChange={(e) => update("subtitle", e.target.value)} placeholder="Organization, publisher, event..." />
+        </div>
+        <div>
+          <Label>Date</Label>
+          <Input data-field="startDate" type="month" value={entry.startDate} onChange={(e) => update("startDate", e.target.value)} />
+        </div>
+        <div>
+          <Label>End Date (Optional)</Label>
+          <Input data-field="endDate" type="month" value={entry.endDate} onChange={(e) => update("endDate", e.target.value)} />
+        </div>
+        <div className="md:col-span-2">
+          <Label>Link (Optional)</Label>
+          <Input data-field="url" type="url" value={entry.url} onChange={(e) => update("url", e.target.value)} placeholder="https://" />
+        </div>
+      </div>
+      <div className="mt-4">
+        <Label>Description (Optional)</Label>
+        <Textarea
+          data-field="description"
+          rows={2}
+          value={entry.description}
+          onChange={(e) => update("description", e.target.value)}
+          placeholder="Details, start lines with - for bullet points..."
+        />
+      </div>
+    </>
+  );
+};
+
+/** The items of a list section, with ids that follow them through reorders and deletes. */
+const ListItems = ({ section, onChange, onRemove }: {
+  section: CustomSection;
+  onChange: (items: string[]) => void;
+  onRemove: (index: number) => void;
+}) => {
+  const ids = useListIds(section.items.length);
+
+  const removeItem = (index: number) => {
+    ids.current.splice(index, 1);
+    onRemove(index);
+  };
+
+  return (
+    <SortableList
+      items={section.items.map((value, index) => ({ id: ids.current[index], value }))}
+      getId={(item) => item.id}
+      getLabel={(item, index) => item.value || `item ${index + 1}`}
+      onReorder={(items) => {
+        ids.current = items.map((item) => item.id);
+        onChange(items.map((item) => item.value));
+      }}
+      layout="grid"
+      className="grid grid-cols-1 md:grid-cols-2 gap-4"
+    >
+      {({ value: item }, index, controls) => (
+        <div data-item={index} className="flex items-center space-x-2">
+          <Input
+            value={item}
+            onChange={(e) => onChange(section.items.map((current, i) => (i === index ? e.target.value : current)))}
+            placeholder="e.g. Spanish (Fluent)"
+          />
+          {controls}
+          <Button variant="ghost" size="sm" onClick={() => removeItem(index)} aria-label={`Delete item ${index + 1}`}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </SortableList>
+  );
+};
+
+/**
+ * Edits user-defined sections: each one is either a list of titled, dated
+ * entries or a simple list of items, rendered generically by every template.
+ */
+const CustomSectionsEditor = ({ sections, onChange, onRemove }: CustomSectionsEditorProps) => {
+  const updateSection = (id: string, changes: Partial<CustomSection>) =>
+    onChange(sections.map((section) => (section.id === id ? { ...section, ...changes } : section)));
+
+  // Undo puts removed parts back where they were, unless their section is gone by then.
+  const removeSection = (section: CustomSection) => {
+    const index = sections.indexOf(section);
+    onRemove(`"${section.title || "Untitled"}" section`, sections.filter((current) => current.id !== section.id), (current) =>
+      current.some((candidate) => candidate.id === section.id) ? current : insertAt(current, index, section)
+    );
+  };
+
+  const restoreInSection = (id: string, restore: (section: CustomSection) => CustomSection) =>
+    (current: CustomSection[]) => current.map((section) => (section.id === id ? restore(section) : section));
+
+  const removeEntry = (section: CustomSection, entry: CustomEntry, index: number) =>
+    onRemove(
+      entry.title ? `"${entry.title}"` : "Entry",
+      sections.map((current) => (current.id === section.id
+        ? { ...current, entries: current.entries.filter((candidate) => candidate.id !== entry.id) }
+        : current)),
+      restoreInSection(section.id, (current) => (current.entries.some((candidate) => candidate.id === entry.id)
+        ? current
+        : { ...current, entries: insertAt(current.entries, index, entry) }))
+    );
+
+  const removeItem = (section: CustomSection, index: number) => {
+    const item = section.items[index];
+    const items = section.items.filter((_, i) => i !== index);
+    // Nothing is lost by removing an empty item.
+    if (!item.trim()) {
+      updateSection(section.id, { items });
+      return;
+    }
+    onRemove(
+      `"${item}"`,
+      sections.map((current) => (current.id === section.id ? { ...current, items } : current)),
+      restoreInSection(section.id, (current) => ({ ...current, items: insertAt(current.items, index, item) }))
+    );
+  };
+
+  if (sections.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <LayoutList className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+        <p className="text-muted-foreground mb-4">
+          Add sections such as Volunteering, Publications or Languages
+        </p>
+        <AddCustomSectionMenu onAdd={(section) => onChange([...sections, section])} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {sections.map((section) => (
+        <div key={section.id} data-section={customSectionKey(section.id)} className="border border-border rounded-lg p-4 space-y-4">
+          <div className="flex items-center gap-2">
+            <Input
+              value={section.title}
+              onChange={(e) => updateSection(section.id, { title: e.target.value })}
+              className="font-semibold"
+              placeholder="Section title"
+              aria-label="Section title"
+            />
+            <Badge variant="secondary" className="shrink-0">
+              {section.kind === "list" ? "List" : "Entries"}
+            </Badge>
+            <Button variant="ghost" size="sm" onClick={() => removeSection(section)} aria-label="Delete section">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {section.kind === "list" ? (
+            <>
+              <ListItems
+                section={section}
+                onChange={(items) => updateSection(section.id, { items })}
+                onRemove={(index) => removeItem(section, index)}
+              />
+              <Button variant="outline" size="sm" onClick={() => updateSection(section.id, { items: [...section.items, ""] })}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Item
+              </Button>
+            </>
+          ) : (
+            <>
+              <SortableList
+                items={section.entries}
+                getId={(entry) => entry.id}
+                getLabel={(_, entryIndex) => `entry ${entryIndex + 1}`}
+                onReorder={(entries) => updateSection(section.id, { entries })}
+                className="space-y-4"
+              >
+                {(entry, entryIndex, controls) => (
+                  <div data-entry={entry.id} className="rounded-lg bg-muted/40 p-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <Badge variant="outline">Entry {entryIndex + 1}</Badge>
+                      <div className="flex items-center">
+                        {controls}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeEntry(section, entry, entryIndex)}
+                          aria-label={`Delete entry ${entryIndex + 1}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <EntryFields
+                      entry={entry}
+                      onChange={(updated) => updateSection(section.id, {
+                        entries: section.entries.map((current) => (current.id === entry.id ? updated : current)),
+                      })}
+                    />
+                  </div>
+                )}
+              </SortableList>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateSection(section.id, { entries: [...section.entries, createCustomEntry()] })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Entry
+              </Button>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CustomSectionsEditor;
@@ -0,0 +1,215 @@
+import type { ReactNode } from "react";
+import { Paintbrush, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { ResumeDesign, TemplateData } from "@/lib/resume";
+import {
+  FONT_FAMILIES,
+  FONT_PAIRINGS,
+  resolveDesign,
+  type LayoutDefinition,
+} from "@/components/resume/layouts";
+
+interface DesignEditorProps {
+  design: ResumeDesign;
+  template: TemplateData;
+  onChange: (design: ResumeDesign) => void;
+}
+
+// Select values can't be undefined; this one stands for the template's choice.
+const TEMPLATE_DEFAULT = "template";
+
+const HEADING_LABELS: Record<LayoutDefinition["heading"], string> = {
+  rule: "Rule below",
+  caps: "Spaced capitals",
+  bar: "Side bar",
+  underline: "Underline",
+  pill: "Pill",
+};
+
+const fontsLabel = ({ heading, body }: { heading: LayoutDefinition["font"]; body: LayoutDefinition["font"] }) =>
+  heading === body ? FONT_FAMILIES[heading] : `${FONT_FAMILIES[heading]} + ${FONT_FAMILIES[body]}`;
+
+const Setting = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    {children}
+  </div>
+);
+
+const ColorSetting = ({ label, value, isSet, onChange }: {
+  label: string;
+  value: string;
+  isSet: boolean;
+  onChange: (color: string | undefined) => void;
+}) => (
+  <Setting label={label}>
+    <div className="flex items-center gap-3">
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-9 w-14 cursor-pointer rounded-md border border-input bg-background p-1"
+        aria-label={label}
+      />
+      <span className="font-mono text-sm text-muted-foreground">{value}</span>
+      {isSet && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(undefined)}>
+          Template color
+        </Button>
+      )}
+    </div>
+  </Setting>
+);
+
+/**
+ * Style overrides for this resume on top of its template. Unset options
+ * follow the template, so switching templates keeps only what was changed.
+ */
+const DesignEditor = ({ design, template, onChange }: DesignEditorProps) => {
+  const resolved = resolveDesign(template, design);
+  const defaults = resolveDesign(template);
+
+  const set = <K extends keyof ResumeDesign>(key: K, value: ResumeDesign[K]) => {
+    const next = { ...design, [key]: value };
+    if (value === undefined) delete next[key];
+    onChange(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Paintbrush className="w-5 h-5 mr-2" />
+            Design
+          </CardTitle>
+          <Button variant="outline" onClick={() => onChange({})} disabled={Object.keys(design).length === 0}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset to template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        <ColorSetting
+          label="Primary color"
+          value={resolved.colors.primary}
+          isSet={!!design.primaryColor}
+          onChange={(color) => set("primaryColor", color)}
+        />
+        <ColorSetting
+          label="Secondary color"
+          value={resolved.colors.secondary}
+          isSet={!!design.secondaryColor}
+          onChange={(color) => set("secondaryColor", color)}
+        />
+
+        <Setting label="Fonts">
+          <Select
+            value={design.fonts ?? TEMPLATE_DEFAULT}
+            onValueChange={(value) =>
+              set("fonts", value === TEMPLATE_DEFAULT ? undefined : (value as ResumeDesign["fonts"]))
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TEMPLATE_DEFAULT}>Template default ({fontsLabel(defaults.fonts)})</SelectItem>
+              {(Object.keys(FONT_PAIRINGS) as (keyof typeof FONT_PAIRINGS)[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {fontsLabel(FONT_PAIRINGS[key])}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Setting>
+
+        <Setting label={`Font size (${Math.round(resolved.fontScale * 100)}%)`}>
+          <Slider
+            min={80}
+            max={120}
+            step={5}
+            value={[Math.round(resolved.fontScale * 100)]}
+            onValueChange={([percent]) => set("fontScale", percent === 100 ? undefined : percent / 100)}
+            className="py-3"
+          />
+        </Setting>
+
+        <Setting label="Margins">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            className="justify-start"
+            value={design.margins ?? "normal"}
+            onValueChange={(value) => value && set("margins", value as ResumeDesign["margins"])}
+          >
+            <ToggleGroupItem value="narrow">Narrow</ToggleGroupItem>
+            <ToggleGroupItem value="normal">Normal</ToggleGroupItem>
+            <ToggleGroupItem value="wide">Wide</ToggleGroupItem>
+          </ToggleGroup>
+        </Setting>
+
+        <Setting label="Line spacing">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            className="justify-start"
+            value={design.lineSpacing ?? "normal"}
+            onValueChange={(value) => value && set("lineSpacing", value as ResumeDesign["lineSpacing"])}
+          >
+            <ToggleGroupItem value="tight">Tight</ToggleGroupItem>
+            <ToggleGroupItem value="normal">Normal</ToggleGroupItem>
+            <ToggleGroupItem value="relaxed">Relaxed</ToggleGroupItem>
+          </ToggleGroup>
+        </Setting>
+
+        <Setting label="Section headings">
+          <Select
+            value={design.heading ?? TEMPLATE_DEFAULT}
+            onValueChange={(value) =>
+              set("heading", value === TEMPLATE_DEFAULT ? undefined : (value as ResumeDesign["heading"]))
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TEMPLATE_DEFAULT}>Template default ({HEADING_LABELS[defaults.layout.heading]})</SelectItem>
+              {(Object.keys(HEADING_LABELS) as LayoutDefinition["heading"][]).map((heading) => (
+                <SelectItem key={heading} value={heading}>
+                  {HEADING_LABELS[heading]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Setting>
+
+        <Setting label="Columns">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            className="justify-start"
+            value={resolved.layout.columns === "single" ? "one" : "two"}
+            onValueChange={(value) => value && set("columns", value as ResumeDesign["columns"])}
+          >
+            <ToggleGroupItem value="one">One column</ToggleGroupItem>
+            <ToggleGroupItem value="two">Two columns</ToggleGroupItem>
+          </ToggleGroup>
+        </Setting>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DesignEditor;
@@ -0,0 +1,250 @@
+import { useEffect, useLayoutEffect, useRef, useState, type MouseEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import TagInput from "@/components/TagInput";
+import ResumeDocument from "@/components/resume/ResumeDocument";
+import { getEntrySlot, resolveDesign, type SectionKey } from "@/components/resume/layouts";
+import { PAGE_HEIGHT, PAGE_WIDTH, paginateDocument } from "@/components/resume/pagination";
+import type { ResumeContent, TemplateData } from "@/lib/resume";
+import { getInlineEditor, type InlineEditTarget, type InlineField } from "./inlineEdit";
+
+/** The part of the resume being edited, as tagged in the form and the document. */
+export interface PreviewTarget {
+  /** A section key, or `personal` for the header. */
+  section: string;
+  entry?: string;
+  field?: string;
+  /** A rendered list item's position. */
+  item?: number;
+}
+
+interface LivePreviewProps {
+  content: ResumeContent;
+  template: TemplateData;
+  target: PreviewTarget | null;
+  onChange: (content: ResumeContent) => void;
+  /** Called when a part of the document is clicked for editing. */
+  onEdit: (target: PreviewTarget) => void;
+}
+
+const GUTTER = 48;
+const EDITOR_WIDTH = 320;
+
+const findTarget = (root: HTMLElement, { section, entry, field, item }: PreviewTarget) => {
+  const sectionElement = root.querySelector<HTMLElement>(`[data-section="${CSS.escape(section)}"]`);
+  if (!sectionElement) return null;
+
+  if (item !== undefined) {
+    return sectionElement.querySelector<HTMLElement>(`[data-item="${item}"]`) ?? sectionElement;
+  }
+
+  if (section === "personal") {
+    return (field && sectionElement.querySelector<HTMLElement>(`[data-field="${CSS.escape(field)}"]`)) || sectionElement;
+  }
+
+  const entryElement = entry && sectionElement.querySelector<HTMLElement>(`[data-entry="${CSS.escape(entry)}"]`);
+  if (!entryElement) return sectionElement;
+
+  const slot = field && getEntrySlot(section as SectionKey, field);
+  return (slot && entryElement.querySelector<HTMLElement>(`[data-field="${slot}"]`)) || entryElement;
+};
+
+const FieldInput = ({ field, autoFocus, onChange, onDone }: {
+  field: InlineField;
+  autoFocus: boolean;
+  onChange: (value: string | string[]) => void;
+  onDone: () => void;
+}) => {
+  const id = `inline-${field.key}`;
+  const control = field.input === "tags" ? (
+    <TagInput value={field.value as string[]} onChange={onChange} placeholder="Type and press Enter" />
+  ) : field.input === "textarea" ? (
+    <Textarea id={id} rows={4} value={field.value as string} onChange={(e) => onChange(e.target.value)} autoFocus={autoFocus} />
+  ) : (
+    <Input
+      id={id}
+      type={field.input === "month" ? "month" : "text"}
+      value={field.value as string}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => e.key === "Enter" && onDone()}
+      autoFocus={autoFocus}
+    />
+  );
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">{field.label}</Label>
+      {control}
+    </div>
+  );
+};
+
+/**
+ * The resume as it prints, scaled to fit the panel and broken into pages the
+ * way the PDF breaks them.
+ * The part being edited is outlined and scrolled into view. Clicking a part
+ * of the document edits the fields it shows in place.
+ */
+const LivePreview = ({ content, template, target, onChange, onEdit }: LivePreviewProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef<HTMLDivElement>(null);
+  const documentRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [pages, setPages] = useState(1);
+  const [editing, setEditing] = useState<{ target: InlineEditTarget; top: number; left: number } | null>(null);
+
+  // Read from the latest content on every render, so each edit builds on the last.
+  const editor = editing && getInlineEditor(content, editing.target);
+
+  useEffect(() => {
+    if (!editing) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const node = event.target as Node;
+      if (!editorRef.current?.contains(node) && !documentRef.current?.contains(node)) setEditing(null);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setEditing(null);
+    };
+
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [editing]);
+
+  const startEditing = (event: MouseEvent<HTMLDivElement>) => {
+    const element = event.target as HTMLElement;
+    const sectionElement = element.closest<HTMLElement>("[data-section]");
+    if (!sectionElement) return;
+
+    const itemElement = element.closest<HTMLElement>("[data-item]");
+    const fieldElement = element.closest<HTMLElement>("[data-field]");
+    const entryElement = element.closest<HTMLElement>("[data-entry]");
+    const clicked: InlineEditTarget = {
+      section: sectionElement.dataset.section,
+      entry: entryElement?.dataset.entry,
+      slot: fieldElement?.dataset.field,
+      item: itemElement ? Number(itemElement.dataset.item) : undefined,
+    };
+
+    const fields = getInlineEditor(content, clicked)?.fields;
+    if (!fields?.length) return;
+
+    const anchor = (itemElement ?? fieldElement ?? entryElement ?? sectionElement).getBoundingClientRect();
+    const bounds = pagesRef.current.getBoundingClientRect();
+    setEditing({
+      target: clicked,
+      top: anchor.bottom - bounds.top + 6,
+      left: Math.max(0, Math.min(anchor.left - bounds.left, bounds.width - EDITOR_WIDTH)),
+    });
+    onEdit({
+      section: clicked.section,
+      entry: clicked.entry,
+      field: fields[0].key === "item" ? undefined : fields[0].key,
+      item: clicked.item,
+    });
+  };
+
+  useEffect(() => {
+    const observer = new ResizeObserver(() => setWidth(containerRef.current?.clientWidth ?? 0));
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Laid out before paint so blocks never show cut by a page edge.
+  useLayoutEffect(() => {
+    const design = resolveDesign(template, content.design);
+    const paginate = () =>
+      setPages(paginateDocument(documentRef.current, { padding: 48 * design.margin, zoom: design.fontScale }));
+
+    paginate();
+    // Heights change once the web fonts arrive.
+    let cancelled = false;
+    document.fonts.ready.then(() => !cancelled && paginate());
+    return () => {
+      cancelled = true;
+    };
+  }, [content, template]);
+
+  // Re-applied after every render, since edits can replace the outlined element.
+  useEffect(() => {
+    const container = containerRef.current;
+    const element = target && findTarget(documentRef.current, target);
+    if (!element) return;
+
+    element.setAttribute("data-preview-active", "");
+
+    const bounds = container.getBoundingClientRect();
+    const rect = element.getBoundingClientRect();
+    if (rect.top < bounds.top || rect.bottom > bounds.bottom) {
+      container.scrollTo({
+        top: container.scrollTop + rect.top - bounds.top - bounds.height / 3,
+        behavior: "smooth",
+      });
+    }
+
+    return () => element.removeAttribute("data-preview-active");
+  }, [target, content, template]);
+
+  const scale = width ? Math.min(1, (width - GUTTER) / PAGE_WIDTH) : 1;
+
+  return (
+    <div ref={containerRef} className="h-full overflow-y-auto bg-muted/50 py-6">
+      <p className="mb-3 text-center text-xs text-muted-foreground">
+        {pages} {pages === 1 ? "page" : "pages"}
+      </p>
+      <div ref={pagesRef} className="relative mx-auto" style={{ width: PAGE_WIDTH * scale, height: pages * PAGE_HEIGHT * scale }}>
+        <div
+          className="absolute left-0 top-0 origin-top-left bg-white shadow-lg [&_[data-preview-active]]:rounded-sm [&_[data-preview-active]]:outline [&_[data-preview-active]]:outline-2 [&_[data-preview-active]]:outline-offset-2 [&_[data-preview-active]]:outline-primary [&_:is([data-field],[data-item]):hover]:cursor-text [&_:is([data-field],[data-item]):hover]:outline-dashed [&_:is([data-field],[data-item]):hover]:outline-1 [&_:is([data-field],[data-item]):hover]:outline-primary/50"
+          style={{ width: PAGE_WIDTH, height: pages * PAGE_HEIGHT, transform: `scale(${scale})` }}
+        >
+          <div ref={documentRef} onClick={startEditing} style={{ height: pages * PAGE_HEIGHT }}>
+            <ResumeDocument content={content} template={template} className="min-h-full shadow-none" />
+          </div>
+          {Array.from({ length: pages - 1 }, (_, index) => (
+            <div
+              key={index}
+              className="pointer-events-none absolute inset-x-0 border-t-2 border-dashed border-muted-foreground/40"
+              style={{ top: (index + 1) * PAGE_HEIGHT }}
+            >
+              <span className="absolute right-2 top-1 rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">
+                Page {index + 2}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {editing && editor && (
+          <div
+            ref={editorRef}
+            className="absolute z-10 space-y-3 rounded-lg border border-border bg-popover p-3 text-popover-foreground shadow-lg"
+            style={{ top: editing.top, left: editing.left, width: EDITOR_WIDTH }}
+          >
+            {editor.fields.map((field, index) => (
+              <FieldInput
+                key={field.key}
+                field={field}
+                autoFocus={index === 0}
+                onChange={(value) => onChange(editor.apply(field.key, value))}
+                onDone={() => setEditing(null)}
+              />
+            ))}
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => setEditing(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LivePreview;
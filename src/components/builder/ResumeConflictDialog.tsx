@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { MergeConflict, MergeSide } from "@/lib/resume";
+
+interface ResumeConflictDialogProps {
+  /** Open while there are conflicts to resolve. */
+  conflicts: MergeConflict[] | null;
+  onResolve: (choices: Record<string, MergeSide>) => void;
+}
+
+const sideLabels: Record<MergeSide, string> = {
+  local: "This tab",
+  remote: "Other session",
+};
+
+/**
+ * Shown when the resume was saved elsewhere while it was being edited here and
+ * both sides changed the same fields. Everything else is already merged.
+ */
+const ResumeConflictDialog = ({ conflicts, onResolve }: ResumeConflictDialogProps) => {
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflicts]);
+
+  const chooseAll = (side: MergeSide) =>
+    onResolve(Object.fromEntries((conflicts ?? []).map((conflict) => [conflict.key, side])));
+
+  return (
+    <AlertDialog open={!!conflicts?.length}>
+      <AlertDialogContent className="sm:max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>This resume was changed somewhere else</AlertDialogTitle>
+          <AlertDialogDescription>
+            It was saved in another tab or device while you were editing. Changes to different fields have been
+            combined. Choose which version to keep for the fields you both changed.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-[50vh] space-y-4 overflow-y-auto pr-1">
+          {conflicts?.map((conflict) => (
+            <div key={conflict.key} className="rounded-lg border border-border p-4">
+              <p className="mb-3 text-sm font-semibold">{conflict.label}</p>
+              <RadioGroup
+                value={choices[conflict.key] ?? "local"}
+                onValueChange={(side) => setChoices({ ...choices, [conflict.key]: side as MergeSide })}
+                className="grid-cols-1 md:grid-cols-2"
+              >
+                {(["local", "remote"] as const).map((side) => (
+                  <Label
+                    key={side}
+                    htmlFor={`${conflict.key}-${side}`}
+                    className="flex cursor-pointer items-start gap-3 rounded-md border border-border p-3 font-normal has-[[data-state=checked]]:border-primary"
+                  >
+                    <RadioGroupItem id={`${conflict.key}-${side}`} value={side} className="mt-0.5" />
+                    <span className="min-w-0">
+                      <span className="block text-xs font-medium uppercase text-muted-foreground">{sideLabels[side]}</span>
+                      <span className="block whitespace-pre-line break-words text-sm">{conflict[side]}</span>
+                    </span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => chooseAll("local")}>
+              Keep all mine
+            </Button>
+            <Button variant="outline" onClick={() => chooseAll("remote")}>
+              Use all theirs
+            </Button>
+          </div>
+          <Button onClick={() => onResolve(choices)}>Apply selection</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ResumeConflictDialog;
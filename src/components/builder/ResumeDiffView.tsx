@@ -0,0 +1,47 @@
+import type { SectionDiff } from "@/lib/resume";
+import { cn } from "@/lib/utils";
+
+interface ResumeDiffViewProps {
+  sections: SectionDiff[];
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+/** Side-by-side, field-level changes between two versions of a resume. */
+const ResumeDiffView = ({ sections, beforeLabel, afterLabel }: ResumeDiffViewProps) => {
+  if (sections.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">These versions are identical.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-3 text-xs font-medium uppercase text-muted-foreground">
+        <span>{beforeLabel}</span>
+        <span>{afterLabel}</span>
+      </div>
+      {sections.map((section) => (
+        <div key={section.key} className="space-y-2">
+          <h4 className="text-sm font-semibold">{section.title}</h4>
+          {section.changes.map((change, index) => (
+            <div key={index} className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {change.label}
+                {change.kind !== "changed" && ` (${change.kind})`}
+              </p>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div className={cn("whitespace-pre-line break-words rounded-md p-2", change.before ? "bg-destructive/10" : "bg-muted/40 text-muted-foreground")}>
+                  {change.before || "—"}
+                </div>
+                <div className={cn("whitespace-pre-line break-words rounded-md p-2", change.after ? "bg-primary/10" : "bg-muted/40 text-muted-foreground")}>
+                  {change.after || "—"}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ResumeDiffView;
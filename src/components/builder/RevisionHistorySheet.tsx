@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { diffResumeDrafts, parseResumeContent, type ResumeDraft } from "@/lib/resume";
+import { cn } from "@/lib/utils";
+import ResumeDiffView from "./ResumeDiffView";
+
+interface Revision {
+  id: string;
+  draft: ResumeDraft;
+  savedAt: string;
+  restoredFrom: string | null;
+}
+
+interface RevisionHistorySheetProps {
+  resumeId: string;
+  /** The editor's state, compared against when one revision is selected. */
+  current: ResumeDraft;
+  onRestore: (revisionId: string) => Promise<void>;
+}
+
+const formatSavedAt = (savedAt: string) => format(new Date(savedAt), "MMM d, yyyy 'at' h:mm a");
+
+/**
+ * Lists the saved revisions of a resume. Selecting one compares it with the
+ * editor; selecting two compares them with each other.
+ */
+const RevisionHistorySheet = ({ resumeId, current, onRestore }: RevisionHistorySheetProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [restoringId, setRestoringId] = useState<string>();
+
+  const fetchRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("resume_revisions")
+        .select("id, title, content, created_at, restored_from")
+        .eq("resume_id", resumeId)
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      setRevisions(data.map((row) => ({
+        id: row.id,
+        draft: { title: row.title, content: parseResumeContent(row.content) },
+        savedAt: row.created_at,
+        restoredFrom: row.restored_from,
+      })));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load revision history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [resumeId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      setSelected([]);
+      fetchRevisions();
+    }
+  }, [open, fetchRevisions]);
+
+  const toggle = (id: string) =>
+    setSelected((current) =>
+      current.includes(id) ? current.filter((item) => item !== id) : [...current, id].slice(-2)
+    );
+
+  const restore = async (revisionId: string) => {
+    setRestoringId(revisionId);
+    try {
+      await onRestore(revisionId);
+      setOpen(false);
+    } finally {
+      setRestoringId(undefined);
+    }
+  };
+
+  // Older revision on the left; a single selection is compared with the editor.
+  const compared = revisions
+    .filter((revision) => selected.includes(revision.id))
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+  const comparison = compared.length === 2
+    ? {
+        sections: diffResumeDrafts(compared[0].draft, compared[1].draft),
+        beforeLabel: formatSavedAt(compared[0].savedAt),
+        afterLabel: formatSavedAt(compared[1].savedAt),
+      }
+    : compared.length === 1
+      ? {
+          sections: diffResumeDrafts(compared[0].draft, current),
+          beforeLabel: formatSavedAt(compared[0].savedAt),
+          afterLabel: "Current version",
+        }
+      : null;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <History className="w-4 h-4 mr-2" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle>Revision history</SheetTitle>
+          <SheetDescription>
+            Select a revision to compare it with your current version, or two revisions to compare them with each other.
+            Every save from the last day is kept; earlier days keep their last save.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="max-h-64 shrink-0 space-y-1 overflow-y-auto rounded-lg border border-border p-1">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No revisions saved yet.</p>
+          ) : (
+            revisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className={cn(
+                  "flex items-center gap-3 rounded-md px-2 py-1.5",
+                  selected.includes(revision.id) && "bg-muted"
+                )}
+              >
+                <Checkbox
+                  id={`revision-${revision.id}`}
+                  checked={selected.includes(revision.id)}
+                  onCheckedChange={() => toggle(revision.id)}
+                />
+                <label htmlFor={`revision-${revision.id}`} className="min-w-0 flex-1 cursor-pointer">
+                  <span className="block text-sm font-medium">{formatSavedAt(revision.savedAt)}</span>
+                  <span className="block truncate text-xs text-muted-foreground">{revision.draft.title}</span>
+                </label>
+                {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                {revision.restoredFrom && <Badge variant="outline">Restored</Badge>}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!!restoringId}
+                  onClick={() => restore(revision.id)}
+                >
+                  {restoringId === revision.id ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                  )}
+                  Restore
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-y-auto pr-1">
+          {comparison ? (
+            <ResumeDiffView {...comparison} />
+          ) : (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Select a revision to see what changed.
+            </p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default RevisionHistorySheet;
@@ -0,0 +1,69 @@
+import { AlertCircle, Check, CloudOff, Loader2, PencilLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { AutosaveStatus } from "@/hooks/useAutosave";
+import { cn } from "@/lib/utils";
+
+interface SaveStatusIndicatorProps {
+  status: AutosaveStatus;
+  lastSavedAt: Date | null;
+  isRetrying: boolean;
+  onRetry: () => void;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+const SaveStatusIndicator = ({ status, lastSavedAt, isRetrying, onRetry }: SaveStatusIndicatorProps) => {
+  const hint = status === "offline"
+    ? "Your changes will be saved when you reconnect"
+    : lastSavedAt ? `Last saved at ${formatTime(lastSavedAt)}` : undefined;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      title={hint}
+      className={cn(
+        "flex items-center gap-1.5 px-2 text-sm",
+        status === "error" ? "text-destructive" : "text-muted-foreground"
+      )}
+    >
+      {status === "saved" && (
+        <>
+          <Check className="w-4 h-4" />
+          Saved
+        </>
+      )}
+      {status === "unsaved" && (
+        <>
+          <PencilLine className="w-4 h-4" />
+          Unsaved changes
+        </>
+      )}
+      {status === "saving" && (
+        <>
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Saving...
+        </>
+      )}
+      {status === "offline" && (
+        <>
+          <CloudOff className="w-4 h-4" />
+          Offline
+        </>
+      )}
+      {status === "error" && (
+        <>
+          <AlertCircle className="w-4 h-4" />
+          {isRetrying ? "Save failed, retrying..." : "Save failed"}
+          {!isRetrying && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-destructive" onClick={onRetry}>
+              Retry
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SaveStatusIndicator;
@@ -0,0 +1,68 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowUpDown } from "lucide-react";
+import { getSectionKeys, getSectionTitle, hasSection } from "@/components/resume/layouts";
+import type { ResumeContent } from "@/lib/resume";
+import SortableList from "./SortableList";
+
+interface SectionOrderDialogProps {
+  content: ResumeContent;
+  onChange: (content: ResumeContent) => void;
+}
+
+/**
+ * Reorders whole sections, including custom ones. The order is stored on the
+ * resume, so every template and export follows it; templates with a sidebar
+ * keep their sidebar sections there but in this order.
+ */
+const SectionOrderDialog = ({ content, onChange }: SectionOrderDialogProps) => {
+  const keys = getSectionKeys(content);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <ArrowUpDown className="w-4 h-4 mr-2" />
+          Sections
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Section order</DialogTitle>
+          <DialogDescription>
+            Drag sections or use the arrows to change the order they appear in on your resume.
+          </DialogDescription>
+        </DialogHeader>
+        <SortableList
+          items={keys}
+          getId={(key) => key}
+          getLabel={(key) => getSectionTitle(content, key) || "Untitled section"}
+          onReorder={(sectionOrder) => onChange({ ...content, sectionOrder })}
+          className="max-h-[60vh] space-y-2 overflow-y-auto"
+        >
+          {(key, _, controls) => (
+            <div className="flex items-center justify-between rounded-md border border-border bg-card py-1 pl-3 pr-1">
+              <span className="text-sm font-medium">
+                {getSectionTitle(content, key) || "Untitled section"}
+              </span>
+              <div className="flex items-center gap-2">
+                {!hasSection(content, key) && <Badge variant="outline">Empty</Badge>}
+                {controls}
+              </div>
+            </div>
+          )}
+        </SortableList>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SectionOrderDialog;
@@ -0,0 +1,128 @@
+import type { CSSProperties, ReactNode } from "react";
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+  rectSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SortableListProps<T> {
+  items: T[];
+  /** A stable id per item; the index may be used for plain values. */
+  getId: (item: T, index: number) => string;
+  onReorder: (items: T[]) => void;
+  /** Describes an item for the move buttons, e.g. "Experience 2". */
+  getLabel: (item: T, index: number) => string;
+  /** Renders an item; `controls` holds the drag handle and move buttons. */
+  children: (item: T, index: number, controls: ReactNode) => ReactNode;
+  layout?: "list" | "grid";
+  className?: string;
+}
+
+interface SortableRowProps {
+  id: string;
+  children: (controls: ReactNode) => ReactNode;
+  label: string;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (offset: number) => void;
+}
+
+const SortableRow = ({ id, children, label, isFirst, isLast, onMove }: SortableRowProps) => {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({ id });
+  const style: CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  const controls = (
+    <div className="flex items-center">
+      <Button
+        ref={setActivatorNodeRef}
+        variant="ghost"
+        size="sm"
+        className="cursor-grab touch-none px-2 active:cursor-grabbing"
+        aria-label={`Drag ${label}`}
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="sm" className="px-2" disabled={isFirst} onClick={() => onMove(-1)} aria-label={`Move ${label} up`}>
+        <ArrowUp className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="sm" className="px-2" disabled={isLast} onClick={() => onMove(1)} aria-label={`Move ${label} down`}>
+        <ArrowDown className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div ref={setNodeRef} style={style} className={cn(isDragging && "relative z-10 opacity-80")}>
+      {children(controls)}
+    </div>
+  );
+};
+
+/**
+ * Reorderable list for the Builder. Items can be dragged by their handle,
+ * moved with the arrow buttons, or picked up from the handle with Space and
+ * moved with the arrow keys.
+ */
+const SortableList = <T,>({ items, getId, onReorder, getLabel, children, layout = "list", className }: SortableListProps<T>) => {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+  const ids = items.map(getId);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= items.length || from === to) return;
+    onReorder(arrayMove(items, from, to));
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over) return;
+    move(ids.indexOf(String(active.id)), ids.indexOf(String(over.id)));
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+      <SortableContext items={ids} strategy={layout === "grid" ? rectSortingStrategy : verticalListSortingStrategy}>
+        <div className={className}>
+          {items.map((item, index) => (
+            <SortableRow
+              key={ids[index]}
+              id={ids[index]}
+              label={getLabel(item, index)}
+              isFirst={index === 0}
+              isLast={index === items.length - 1}
+              onMove={(offset) => move(index, index + offset)}
+            >
+              {(controls) => children(item, index, controls)}
+            </SortableRow>
+          ))}
+        </div>
+      </SortableContext>
+    </DndContext>
+  );
+};
+
+export default SortableList;
@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Check, Loader2, Palette } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { parseTemplateData, type ResumeContent, type TemplateData } from "@/lib/resume";
+import { getHiddenSections, getSectionTitle, resolveDesign } from "@/components/resume/layouts";
+import { cn } from "@/lib/utils";
+
+export interface PickedTemplate {
+  id: string;
+  name: string;
+  template: TemplateData;
+}
+
+interface TemplatePickerProps {
+  templateId: string | undefined;
+  /** The template currently shown, which may not be in the list yet. */
+  template: TemplateData;
+  content: ResumeContent;
+  onSelect: (picked: PickedTemplate) => void;
+}
+
+/** Titles of the sections with content that `template` leaves out. */
+const hiddenTitles = (content: ResumeContent, template: TemplateData) =>
+  getHiddenSections(content, resolveDesign(template).layout).map((key) => getSectionTitle(content, key));
+
+/**
+ * Switches the resume to another template. Content is kept as is; templates
+ * that leave out sections this resume uses say so before they are picked.
+ */
+const TemplatePicker = ({ templateId, template, content, onSelect }: TemplatePickerProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [templates, setTemplates] = useState<(PickedTemplate & { category: string })[] | null>(null);
+
+  useEffect(() => {
+    if (!open || templates) return;
+
+    supabase
+      .from("resume_templates")
+      .select("id, name, category, template_data")
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) {
+          toast({
+            title: "Error",
+            description: "Failed to load templates",
+            variant: "destructive",
+          });
+          setOpen(false);
+          return;
+        }
+        setTemplates(data.map((row) => ({
+          id: row.id,
+          name: row.name,
+          category: row.category,
+          template: parseTemplateData(row.template_data),
+        })));
+      });
+  }, [open, templates, toast]);
+
+  const currentHidden = hiddenTitles(content, template);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          title={currentHidden.length > 0 ? `This template leaves out ${currentHidden.join(", ")}` : "Change template"}
+        >
+          {currentHidden.length > 0
+            ? <AlertTriangle className="w-4 h-4 mr-2 text-amber-500" />
+            : <Palette className="w-4 h-4 mr-2" />}
+          Template
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-2">
+        {!templates ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="max-h-96 space-y-1 overflow-y-auto">
+            {templates.map((option) => {
+              const hidden = hiddenTitles(content, option.template);
+              const isCurrent = option.id === templateId;
+
+              return (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => onSelect(option)}
+                  className={cn(
+                    "flex w-full items-start gap-3 rounded-md p-2 text-left transition-colors hover:bg-muted",
+                    isCurrent && "bg-muted"
+                  )}
+                >
+                  <span className="mt-0.5 flex shrink-0 overflow-hidden rounded-full border border-border">
+                    <span className="h-5 w-2.5" style={{ backgroundColor: option.template.colors.primary }} />
+                    <span className="h-5 w-2.5" style={{ backgroundColor: option.template.colors.secondary }} />
+                  </span>
+                  <span className="min-w-0 flex-1">
+                    <span className="block text-sm font-medium">{option.name}</span>
+                    <span className="block text-xs text-muted-foreground">{option.category}</span>
+                    {hidden.length > 0 && (
+                      <span className="mt-1 flex items-start gap-1 text-xs text-amber-600">
+                        <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                        Leaves out {hidden.join(", ")}. Your content is kept.
+                      </span>
+                    )}
+                  </span>
+                  {isCurrent && <Check className="mt-0.5 h-4 w-4 shrink-0 text-primary" />}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TemplatePicker;
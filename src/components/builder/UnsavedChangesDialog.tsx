@@ -0,0 +1,69 @@
+import { useState } from "react";
+import type { Blocker } from "react-router-dom";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+interface UnsavedChangesDialogProps {
+  blocker: Blocker;
+  /** Resolves to false when the save failed and the user should stay. */
+  onSave: () => Promise<boolean>;
+}
+
+/** Asks before leaving the Builder while changes are still unsaved. */
+const UnsavedChangesDialog = ({ blocker, onSave }: UnsavedChangesDialogProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saveAndLeave = async () => {
+    setIsSaving(true);
+    const saved = await onSave();
+    setIsSaving(false);
+    if (blocker.state !== "blocked") return;
+    if (saved) {
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  };
+
+  return (
+    <AlertDialog
+      open={blocker.state === "blocked"}
+      onOpenChange={(open) => !open && blocker.state === "blocked" && blocker.reset()}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>You have unsaved changes</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your latest edits haven't been saved yet. Save them before leaving, or leave and discard them.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSaving}>Stay</AlertDialogCancel>
+          <Button variant="outline" disabled={isSaving} onClick={() => blocker.proceed?.()}>
+            Discard changes
+          </Button>
+          <AlertDialogAction
+            disabled={isSaving}
+            onClick={(e) => {
+              e.preventDefault();
+              saveAndLeave();
+            }}
+          >
+            {isSaving ? "Saving..." : "Save and leave"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default UnsavedChangesDialog;
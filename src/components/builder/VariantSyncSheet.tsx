@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowDownToLine, GitBranch, Loader2 } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  diffResumeDrafts,
+  getMasterUpdates,
+  parseResumeContent,
+  pullMasterUpdates,
+  type ResumeContent,
+} from "@/lib/resume";
+import ResumeDiffView from "./ResumeDiffView";
+
+interface VariantSyncSheetProps {
+  parentId: string;
+  /** The master content this variant last synced with; null for older variants. */
+  base: ResumeContent | null;
+  content: ResumeContent;
+  onPull: (content: ResumeContent, base: ResumeContent) => Promise<void>;
+}
+
+/**
+ * Compares a variant with its master: which fields the variant tailors, and
+ * which master changes since the last sync can be pulled in.
+ */
+const VariantSyncSheet = ({ parentId, base, content, onPull }: VariantSyncSheetProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [master, setMaster] = useState<{ title: string; content: ResumeContent } | null>(null);
+  // Null until the user picks, so the default selection follows the latest updates.
+  const [picked, setPicked] = useState<string[] | null>(null);
+  const [isPulling, setIsPulling] = useState(false);
+
+  const fetchMaster = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("resumes")
+        .select("title, content")
+        .eq("id", parentId)
+        .is("deleted_at", null)
+        .single();
+
+      if (error) throw error;
+      setMaster({ title: data.title, content: parseResumeContent(data.content) });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load the master resume",
+        variant: "destructive",
+      });
+    }
+  }, [parentId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      setMaster(null);
+      setPicked(null);
+      fetchMaster();
+    }
+  }, [open, fetchMaster]);
+
+  const syncBase = base ?? master?.content;
+  const updates = master ? getMasterUpdates(syncBase, content, master.content) : [];
+
+  // Preselect updates that don't overwrite anything tailored in the variant.
+  const selected = picked ?? updates.filter((update) => !update.conflict).map((update) => update.key);
+
+  const toggle = (key: string) =>
+    setPicked(selected.includes(key) ? selected.filter((item) => item !== key) : [...selected, key]);
+
+  const pull = async () => {
+    setIsPulling(true);
+    try {
+      const result = pullMasterUpdates(syncBase, content, master.content, selected);
+      await onPull(result.content, result.base);
+      setOpen(false);
+    } finally {
+      setIsPulling(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <GitBranch className="w-4 h-4 mr-2" />
+          Master
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle>Master resume</SheetTitle>
+          <SheetDescription>
+            This resume is a variant of{" "}
+            {master ? (
+              <Link to={`/builder/${parentId}`} className="font-medium text-primary hover:underline">
+                {master.title}
+              </Link>
+            ) : (
+              "its master"
+            )}
+            . Pull in master changes you want here; everything else stays tailored.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!master ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="updates" className="flex min-h-0 flex-1 flex-col">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="updates">
+                Master updates
+                {updates.length > 0 && <Badge className="ml-2">{updates.length}</Badge>}
+              </TabsTrigger>
+              <TabsTrigger value="differences">Differences</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="updates" className="min-h-0 flex-1 space-y-4 overflow-y-auto pr-1">
+              {updates.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  This variant is up to date with its master.
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-3 pl-10 pr-3 text-xs font-medium uppercase text-muted-foreground">
+                    <span>This variant</span>
+                    <span>Master</span>
+                  </div>
+                  {updates.map((update) => (
+                    <label
+                      key={update.key}
+                      htmlFor={`update-${update.key}`}
+                      className="flex cursor-pointer items-start gap-3 rounded-lg border border-border p-3"
+                    >
+                      <Checkbox
+                        id={`update-${update.key}`}
+                        checked={selected.includes(update.key)}
+                        onCheckedChange={() => toggle(update.key)}
+                        className="mt-0.5"
+                      />
+                      <span className="min-w-0 flex-1 space-y-2">
+                        <span className="flex items-center gap-2 text-sm font-medium">
+                          {update.label}
+                          {update.conflict && <Badge variant="outline">Also tailored here</Badge>}
+                        </span>
+                        <span className="grid grid-cols-2 gap-3 text-sm">
+                          <span className="whitespace-pre-line break-words rounded-md bg-muted/40 p-2">{update.local}</span>
+                          <span className="whitespace-pre-line break-words rounded-md bg-primary/10 p-2">{update.remote}</span>
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                  <div className="flex justify-end">
+                    <Button onClick={pull} disabled={selected.length === 0 || isPulling}>
+                      <ArrowDownToLine className="w-4 h-4 mr-2" />
+                      {isPulling ? "Pulling..." : `Pull ${selected.length} selected`}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="differences" className="min-h-0 flex-1 overflow-y-auto pr-1">
+              <ResumeDiffView
+                sections={diffResumeDrafts({ title: "", content: master.content }, { title: "", content })}
+                beforeLabel="Master"
+                afterLabel="This variant"
+              />
+            </TabsContent>
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default VariantSyncSheet;
@@ -0,0 +1,120 @@
+import {
+  getSlotFields,
+  getStoredItemIndex,
+  type SectionKey,
+} from "@/components/resume/layouts";
+import type { CustomSection, ResumeContent } from "@/lib/resume";
+import { PERSONAL_INFO_LABELS, fieldLabel } from "@/lib/resume/describe";
+
+/** What was clicked in the rendered document, read from its data attributes. */
+export interface InlineEditTarget {
+  /** A section key, or `personal` for the header. */
+  section: string;
+  entry?: string;
+  /** A `data-field`: an entry slot, or a personal info field in the header. */
+  slot?: string;
+  /** A rendered list item's position. */
+  item?: number;
+}
+
+export interface InlineField {
+  key: string;
+  label: string;
+  input: "text" | "textarea" | "month" | "tags";
+  value: string | string[];
+}
+
+export interface InlineEditor {
+  fields: InlineField[];
+  apply: (key: string, value: string | string[]) => ResumeContent;
+}
+
+type EntryListKey = "experience" | "projects" | "education" | "certifications" | "awards";
+
+const ENTRY_LISTS: EntryListKey[] = ["experience", "projects", "education", "certifications", "awards"];
+const CONTACT_FIELDS = ["fullName", "email", "phone", "location"] as const;
+
+const inputFor = (key: string): InlineField["input"] => {
+  if (key === "description" || key === "summary") return "textarea";
+  if (key === "technologies") return "tags";
+  if (/date$/i.test(key)) return "month";
+  return "text";
+};
+
+/**
+ * The stored fields behind a clicked part of the rendered resume, and how to
+ * write them back. Null when nothing there is editable, e.g. a built-in
+ * section heading.
+ */
+export const getInlineEditor = (content: ResumeContent, target: InlineEditTarget): InlineEditor | null => {
+  const { section, entry, slot, item } = target;
+
+  if (section === "personal" || section === "summary") {
+    const keys = section === "summary"
+      ? ["summary" as const]
+      : CONTACT_FIELDS.filter((key) => !slot || key === slot);
+    return {
+      fields: keys.map((key) => ({
+        key,
+        label: PERSONAL_INFO_LABELS[key],
+        input: inputFor(key),
+        value: content.personalInfo[key],
+      })),
+      apply: (key, value) => ({ ...content, personalInfo: { ...content.personalInfo, [key]: value } }),
+    };
+  }
+
+  const key = section as SectionKey;
+  const custom = content.customSections.find((candidate) => `custom:${candidate.id}` === section);
+  const updateCustom = (changes: Partial<CustomSection>): ResumeContent => ({
+    ...content,
+    customSections: content.customSections.map((candidate) =>
+      candidate.id === custom.id ? { ...candidate, ...changes } : candidate
+    ),
+  });
+
+  if (item !== undefined) {
+    const index = getStoredItemIndex(content, key, item);
+    const items = custom ? custom.items : section === "skills" ? content.skills : null;
+    if (!items || index < 0) return null;
+
+    const replace = (value: string) => items.map((current, i) => (i === index ? value : current));
+    return {
+      fields: [{ key: "item", label: custom ? "Item" : "Skill", input: "text", value: items[index] }],
+      apply: (_, value) => custom
+        ? updateCustom({ items: replace(value as string) })
+        : { ...content, skills: replace(value as string) },
+    };
+  }
+
+  if (entry) {
+    const list = custom ? custom.entries : ENTRY_LISTS.includes(section as EntryListKey) ? content[section as EntryListKey] : [];
+    const stored = (list as { id: string }[]).find((candidate) => candidate.id === entry) as Record<string, unknown> | undefined;
+    if (!stored) return null;
+
+    const keys = getSlotFields(key, slot);
+    const updateEntry = (field: string, value: string | string[]) =>
+      (list as { id: string }[]).map((candidate) => (candidate.id === entry ? { ...candidate, [field]: value } : candidate));
+
+    return {
+      fields: (keys.length > 0 ? keys : getSlotFields(key)).map((field) => ({
+        key: field,
+        label: fieldLabel(field),
+        input: inputFor(field),
+        value: stored[field] as string | string[],
+      })),
+      apply: (field, value) => custom
+        ? updateCustom({ entries: updateEntry(field, value) as CustomSection["entries"] })
+        : { ...content, [section]: updateEntry(field, value) },
+    };
+  }
+
+  if (custom) {
+    return {
+      fields: [{ key: "title", label: "Section title", input: "text", value: custom.title }],
+      apply: (_, value) => updateCustom({ title: value as string }),
+    };
+  }
+
+  return null;
+};
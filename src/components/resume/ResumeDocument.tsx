@@ -0,0 +1,408 @@
+import { Fragment, type CSSProperties, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+import {
+  formatLink,
+  parseDescription,
+  type ResumeContent,
+  type TemplateData,
+} from "@/lib/resume";
+import {
+  FONT_STACKS,
+  getSectionBody,
+  getSectionTitle,
+  resolveDesign,
+  splitSections,
+  tint,
+  type LayoutDefinition,
+  type SectionEntry,
+  type SectionKey,
+} from "./layouts";
+
+interface ResumeDocumentProps {
+  content: ResumeContent;
+  template: TemplateData;
+  className?: string;
+}
+
+interface ThemeProps {
+  layout: LayoutDefinition;
+  colors: TemplateData["colors"];
+  /** Rendering on a dark, colored sidebar. */
+  inverted?: boolean;
+}
+
+const SectionHeading = ({ layout, colors, inverted, children }: ThemeProps & { children: ReactNode }) => {
+  const color = inverted ? "#ffffff" : colors.primary;
+
+  switch (layout.heading) {
+    case "rule":
+      return (
+        <h2
+          data-break="keep-with-next"
+          className="text-sm font-semibold uppercase tracking-[0.2em] pb-1 mb-3 border-b"
+          style={{ color, borderColor: color }}
+        >
+          {children}
+        </h2>
+      );
+    case "caps":
+      return (
+        <h2 data-break="keep-with-next" className={cn("text-xs font-medium uppercase tracking-[0.3em] mb-3", inverted ? "text-white/80" : "text-gray-400")}>
+          {children}
+        </h2>
+      );
+    case "bar":
+      return (
+        <h2 data-break="keep-with-next" className="text-base font-bold pl-3 mb-3 border-l-4" style={{ borderColor: color, color: inverted ? color : "#111827" }}>
+          {children}
+        </h2>
+      );
+    case "underline":
+      return (
+        <h2 data-break="keep-with-next" className="mb-3">
+          <span className="inline-block text-base font-bold pb-1 border-b-2" style={{ color, borderColor: colors.secondary }}>
+            {children}
+          </span>
+        </h2>
+      );
+    case "pill":
+      return (
+        <h2 data-break="keep-with-next" className="mb-3">
+          <span
+            className="inline-block rounded-full px-3 py-0.5 text-xs font-semibold uppercase tracking-wider"
+            style={inverted
+              ? { backgroundColor: "rgba(255,255,255,0.2)", color: "#ffffff" }
+              : { backgroundColor: colors.primary, color: "#ffffff" }}
+          >
+            {children}
+          </span>
+        </h2>
+      );
+  }
+};
+
+const Description = ({ text, inverted }: { text: string; inverted?: boolean }) => {
+  const lines = parseDescription(text);
+  if (lines.length === 0) return null;
+
+  return (
+    <div data-field="description" className={cn("mt-1 text-sm leading-[var(--resume-leading)] space-y-1", inverted ? "text-white/90" : "text-gray-700")}>
+      {lines.map((line, index) =>
+        line.kind === "bullet" ? (
+          <div key={index} data-break="line" className="flex">
+            <span className="mr-2">•</span>
+            <span>{line.text}</span>
+          </div>
+        ) : (
+          <p key={index} data-break="line">{line.text}</p>
+        )
+      )}
+    </div>
+  );
+};
+
+const Links = ({ links, inverted }: { links: string[]; inverted?: boolean }) =>
+  links.length > 0 ? (
+    <div data-field="links" className={cn("text-xs break-all", inverted ? "text-white/70" : "text-gray-500")}>
+      {links.map(formatLink).join("  ·  ")}
+    </div>
+  ) : null;
+
+const Tags = ({ colors, inverted, tags }: ThemeProps & { tags: string[] }) =>
+  tags.length > 0 ? (
+    <div data-field="tags" className="mt-1.5 flex flex-wrap gap-1">
+      {tags.map((tag, index) => (
+        <span
+          key={index}
+          className="rounded px-1.5 py-0.5 text-[11px] font-medium"
+          style={inverted
+            ? { backgroundColor: "rgba(255,255,255,0.15)", color: "#ffffff" }
+            : { backgroundColor: tint(colors.primary, 0.1), color: colors.primary }}
+        >
+          {tag}
+        </span>
+      ))}
+    </div>
+  ) : null;
+
+const Entry = ({ layout, colors, inverted, entry }: ThemeProps & { entry: SectionEntry }) => {
+  const { title, subtitle, dates, description, links, tags } = entry;
+  const titleClass = cn("font-semibold", inverted ? "text-white" : "text-gray-900");
+  const subtitleStyle: CSSProperties = { color: inverted ? "rgba(255,255,255,0.85)" : colors.secondary };
+  const datesClass = cn("text-xs whitespace-nowrap", inverted ? "text-white/70" : "text-gray-500");
+  const details = (
+    <>
+      <Description text={description} inverted={inverted} />
+      <Tags layout={layout} colors={colors} inverted={inverted} tags={tags} />
+    </>
+  );
+
+  if (layout.datePlacement === "left") {
+    return (
+      <div data-entry={entry.id} data-break="avoid" className="grid grid-cols-[7.5rem_1fr] gap-4">
+        <div data-field="dates" className={cn(datesClass, "pt-0.5")}>{dates}</div>
+        <div>
+          <div data-field="title" className={titleClass}>{title}</div>
+          {subtitle && <div data-field="subtitle" className="text-sm" style={subtitleStyle}>{subtitle}</div>}
+          <Links links={links} inverted={inverted} />
+          {details}
+        </div>
+      </div>
+    );
+  }
+
+  if (layout.datePlacement === "below") {
+    return (
+      <div data-entry={entry.id} data-break="avoid">
+        <div data-field="title" className={titleClass}>{title}</div>
+        {subtitle && <div data-field="subtitle" className="text-sm font-medium" style={subtitleStyle}>{subtitle}</div>}
+        {dates && <div data-field="dates" className={datesClass}>{dates}</div>}
+        <Links links={links} inverted={inverted} />
+        {details}
+      </div>
+    );
+  }
+
+  return (
+    <div data-entry={entry.id} data-break="avoid">
+      <div className="flex items-baseline justify-between gap-4">
+        <div data-field="title" className={titleClass}>{title}</div>
+        <div data-field="dates" className={datesClass}>{dates}</div>
+      </div>
+      {subtitle && <div data-field="subtitle" className="text-sm italic" style={subtitleStyle}>{subtitle}</div>}
+      <Links links={links} inverted={inverted} />
+      {details}
+    </div>
+  );
+};
+
+/** Skills and custom list sections, drawn in the layout's skill style. */
+const ItemList = ({ layout, colors, inverted, items }: ThemeProps & { items: string[] }) => {
+  switch (layout.skillStyle) {
+    case "chips":
+      return (
+        <div data-break="avoid" className="flex flex-wrap gap-2">
+          {items.map((item, index) => (
+            <span
+              key={index}
+              data-item={index}
+              className="rounded-full border px-3 py-0.5 text-xs font-medium"
+              style={inverted
+                ? { borderColor: "rgba(255,255,255,0.5)", color: "#ffffff" }
+                : { borderColor: colors.primary, color: colors.primary }}
+            >
+              {item}
+            </span>
+          ))}
+        </div>
+      );
+    case "list":
+      return (
+        <ul className={cn("space-y-1 text-sm", inverted ? "text-white/90" : "text-gray-700")}>
+          {items.map((item, index) => (
+            <li key={index} data-item={index} data-break="line" className="flex items-center">
+              <span className="mr-2 h-1.5 w-1.5 rounded-full" style={{ backgroundColor: colors.secondary }} />
+              {item}
+            </li>
+          ))}
+        </ul>
+      );
+    case "inline":
+      return (
+        <p data-break="avoid" className={cn("text-sm", inverted ? "text-white/90" : "text-gray-700")}>
+          {items.map((item, index) => (
+            <Fragment key={index}>
+              {index > 0 && "  ·  "}
+              <span data-item={index}>{item}</span>
+            </Fragment>
+          ))}
+        </p>
+      );
+  }
+};
+
+const Section = ({ section, content, ...theme }: ThemeProps & { section: SectionKey; content: ResumeContent }) => {
+  const body = getSectionBody(content, section);
+
+  let children: ReactNode;
+  switch (body.kind) {
+    case "text":
+      children = <Description text={body.text} inverted={theme.inverted} />;
+      break;
+    case "list":
+      children = <ItemList {...theme} items={body.items} />;
+      break;
+    case "entries":
+      children = (
+        <div className="space-y-4">
+          {body.entries.map((entry) => (
+            <Entry key={entry.id} {...theme} entry={entry} />
+          ))}
+        </div>
+      );
+      break;
+  }
+
+  return (
+    <section data-section={section} className="mb-6 break-inside-avoid-page">
+      <SectionHeading {...theme}>{getSectionTitle(content, section)}</SectionHeading>
+      {children}
+    </section>
+  );
+};
+
+const getContactItems = (content: ResumeContent) =>
+  (["email", "phone", "location"] as const)
+    .map((field) => [field, content.personalInfo[field]] as const)
+    .filter(([, value]) => value);
+
+const ContactLine = ({ content, className, separator = "·" }: { content: ResumeContent; className?: string; separator?: string }) => {
+  const items = getContactItems(content);
+  if (items.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-x-2 text-sm", className)}>
+      {items.map(([field, item], index) => (
+        <span key={field} data-field={field}>
+          {index > 0 && <span className="mr-2 opacity-60">{separator}</span>}
+          {item}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const Header = ({ layout, colors, content }: ThemeProps & { content: ResumeContent }) => {
+  const name = content.personalInfo.fullName || "Your Name";
+
+  switch (layout.header) {
+    case "centered":
+      return (
+        <header data-section="personal" data-break="avoid" className="text-center mb-8">
+          <h1
+            data-field="fullName"
+            className={cn("text-4xl font-bold", layout.font === "serif" && "uppercase tracking-[0.15em]")}
+            style={{ color: layout.font === "display" ? colors.secondary : "#111827" }}
+          >
+            {name}
+          </h1>
+          <div className="mx-auto my-3 h-px w-24" style={{ backgroundColor: colors.primary }} />
+          <ContactLine content={content} className="justify-center text-gray-600" />
+        </header>
+      );
+    case "split":
+      return (
+        <header data-section="personal" data-break="avoid" className="flex items-end justify-between gap-6 pb-4 mb-6 border-b-2" style={{ borderColor: colors.primary }}>
+          <h1 data-field="fullName" className="text-3xl font-extrabold text-gray-900">{name}</h1>
+          <div className="text-right text-sm text-gray-600 space-y-0.5">
+            {getContactItems(content).map(([field, item]) => <div key={field} data-field={field}>{item}</div>)}
+          </div>
+        </header>
+      );
+    case "banner":
+      return (
+        <header
+          data-section="personal" data-break="avoid"
+          className="px-12 py-10 text-white"
+          style={{ background: `linear-gradient(135deg, ${colors.primary}, ${colors.secondary})` }}
+        >
+          <h1 data-field="fullName" className="text-4xl font-bold">{name}</h1>
+          <ContactLine content={content} className="mt-2 text-white/90" separator="|" />
+        </header>
+      );
+    case "stacked":
+      return (
+        <header data-section="personal" data-break="avoid" className="mb-8">
+          <h1 data-field="fullName" className="text-4xl font-light tracking-tight text-gray-900">{name}</h1>
+          <div className="mt-2 h-1 w-12 rounded" style={{ backgroundColor: colors.primary }} />
+          <ContactLine content={content} className="mt-3 text-gray-500" />
+        </header>
+      );
+  }
+};
+
+/**
+ * Renders resume content as a printable A4 page, styled by the template's
+ * layout and colors with the resume's design overrides applied. Sections,
+ * entries, fields and list items carry `data-section`, `data-entry`,
+ * `data-field` and `data-item` attributes so the Builder can point at them,
+ * and `data-break` marks how blocks may be split across pages, as in the PDF.
+ */
+const ResumeDocument = ({ content, template, className }: ResumeDocumentProps) => {
+  const design = resolveDesign(template, content.design);
+  const { layout } = design;
+  const theme = { layout, colors: design.colors };
+  const { main, sidebar } = splitSections(content, layout);
+
+  const page = cn(
+    "bg-white text-gray-800 w-[210mm] min-h-[297mm] shadow-lg [&_:is(h1,h2)]:[font-family:var(--resume-heading-font)]",
+    className
+  );
+  const style = {
+    fontFamily: FONT_STACKS[design.fonts.body],
+    lineHeight: 1.5 * design.lineSpacing,
+    "--resume-heading-font": FONT_STACKS[design.fonts.heading],
+    "--resume-leading": 1.625 * design.lineSpacing,
+  } as CSSProperties;
+  // Zooming the content scales every font size without changing the page size.
+  const scaled: CSSProperties = { zoom: design.fontScale };
+  const padding = (vertical: number, horizontal: number) => `${vertical * design.margin}px ${horizontal * design.margin}px`;
+
+  // Banner headers span the full page width, above any sidebar.
+  const banner = layout.header === "banner";
+  const header = <Header {...theme} content={content} />;
+  const mainColumn = (
+    <div className="flex-1" style={{ padding: padding(48, 48) }}>
+      <div style={scaled}>
+        {!banner && header}
+        {main.map((section) => (
+          <Section key={section} section={section} content={content} {...theme} />
+        ))}
+      </div>
+    </div>
+  );
+
+  if (layout.columns === "single") {
+    return (
+      <article className={cn(page, "flex flex-col")} style={style}>
+        {banner && <div style={scaled}>{header}</div>}
+        {mainColumn}
+      </article>
+    );
+  }
+
+  // Sidebars are filled with the template gradient or tinted, as the template says.
+  const isLeft = layout.columns === "sidebar-left";
+  const coloredSidebar = layout.sidebarFill === "gradient";
+
+  const aside = (
+    <aside
+      className={cn("w-[34%] shrink-0", !coloredSidebar && "border-l-4")}
+      style={{
+        padding: padding(48, 32),
+        ...(coloredSidebar
+          ? { background: `linear-gradient(180deg, ${theme.colors.primary}, ${theme.colors.secondary})`, color: "#ffffff" }
+          : { backgroundColor: tint(theme.colors.primary, 0.06), borderColor: theme.colors.secondary }),
+      }}
+    >
+      <div style={scaled}>
+        {sidebar.map((section) => (
+          <Section key={section} section={section} content={content} {...theme} inverted={coloredSidebar} />
+        ))}
+      </div>
+    </aside>
+  );
+
+  return (
+    <article className={cn(page, "flex flex-col")} style={style}>
+      {banner && <div style={scaled}>{header}</div>}
+      <div className="flex flex-1">
+        {isLeft && aside}
+        {mainColumn}
+        {!isLeft && aside}
+      </div>
+    </article>
+  );
+};
+
+export default ResumeDocument;
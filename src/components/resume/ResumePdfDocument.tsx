@@ -0,0 +1,445 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { Document, Page, StyleSheet, Text, View } from "@react-pdf/renderer";
+import type { Styles } from "@react-pdf/renderer";
+import {
+  formatLink,
+  parseDescription,
+  type ResumeContent,
+  type TemplateData,
+} from "@/lib/resume";
+import {
+  getSectionBody,
+  getSectionTitle,
+  resolveDesign,
+  splitSections,
+  tint,
+  type LayoutDefinition,
+  type SectionEntry,
+  type SectionKey,
+} from "./layouts";
+import { pdfFontFamily } from "./pdfFonts";
+
+interface ResumePdfDocumentProps {
+  content: ResumeContent;
+  template: TemplateData;
+  title: string;
+}
+
+type Style = Styles[string];
+
+const PAGE_PADDING = 36;
+const SIDEBAR_WIDTH = "34%";
+
+const TEXT = "#1f2937";
+const HEADING = "#111827";
+const MUTED = "#6b7280";
+const WHITE = "#ffffff";
+
+const styles = StyleSheet.create({
+  page: {
+    paddingVertical: PAGE_PADDING,
+    fontSize: 10,
+    lineHeight: 1.4,
+    color: TEXT,
+  },
+  row: {
+    flexDirection: "row",
+  },
+  main: {
+    flexGrow: 1,
+    flexBasis: 0,
+    paddingHorizontal: 40,
+  },
+  sidebar: {
+    width: SIDEBAR_WIDTH,
+    paddingHorizontal: 24,
+  },
+  sidebarBackground: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: SIDEBAR_WIDTH,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  entry: {
+    marginBottom: 10,
+  },
+  bullet: {
+    flexDirection: "row",
+    marginTop: 2,
+  },
+  bulletMark: {
+    width: 10,
+  },
+  bulletText: {
+    flex: 1,
+  },
+});
+
+interface ThemeProps {
+  layout: LayoutDefinition;
+  colors: TemplateData["colors"];
+  inverted?: boolean;
+}
+
+/** The resume's font size scale and heading font, read by every text style. */
+const TypographyContext = createContext({ scale: 1, headingFont: pdfFontFamily("sans") });
+
+const useTypography = () => {
+  const { scale, headingFont } = useContext(TypographyContext);
+  return { size: (points: number) => points * scale, headingFont };
+};
+
+const SectionHeading = ({ layout, colors, inverted, children }: ThemeProps & { children: string }) => {
+  const { size, headingFont } = useTypography();
+  const color = inverted ? WHITE : colors.primary;
+
+  // minPresenceAhead keeps a heading from being stranded at the bottom of a page.
+  switch (layout.heading) {
+    case "rule":
+      return (
+        <View minPresenceAhead={48} style={{ borderBottomWidth: 1, borderBottomColor: color, paddingBottom: 2, marginBottom: 8 }}>
+          <Text style={{ fontFamily: headingFont, fontSize: size(10), fontWeight: 600, letterSpacing: 2, textTransform: "uppercase", color }}>{children}</Text>
+        </View>
+      );
+    case "caps":
+      return (
+        <View minPresenceAhead={48} style={{ marginBottom: 8 }}>
+          <Text style={{ fontFamily: headingFont, fontSize: size(8), letterSpacing: 3, textTransform: "uppercase", color: inverted ? WHITE : "#9ca3af" }}>{children}</Text>
+        </View>
+      );
+    case "bar":
+      return (
+        <View minPresenceAhead={48} style={{ borderLeftWidth: 3, borderLeftColor: color, paddingLeft: 6, marginBottom: 8 }}>
+          <Text style={{ fontFamily: headingFont, fontSize: size(12), fontWeight: 700, color: inverted ? WHITE : HEADING }}>{children}</Text>
+        </View>
+      );
+    case "underline":
+      return (
+        <View minPresenceAhead={48} style={{ alignSelf: "flex-start", borderBottomWidth: 2, borderBottomColor: colors.secondary, paddingBottom: 2, marginBottom: 8 }}>
+          <Text style={{ fontFamily: headingFont, fontSize: size(12), fontWeight: 700, color }}>{children}</Text>
+        </View>
+      );
+    case "pill":
+      return (
+        <View
+          minPresenceAhead={48}
+          style={{
+            alignSelf: "flex-start",
+            borderRadius: 10,
+            paddingHorizontal: 8,
+            paddingVertical: 2,
+            marginBottom: 8,
+            backgroundColor: inverted ? "rgba(255, 255, 255, 0.2)" : colors.primary,
+          }}
+        >
+          <Text style={{ fontFamily: headingFont, fontSize: size(8), fontWeight: 600, letterSpacing: 1, textTransform: "uppercase", color: WHITE }}>{children}</Text>
+        </View>
+      );
+  }
+};
+
+const Description = ({ text, inverted }: { text: string; inverted?: boolean }) => {
+  const lines = parseDescription(text);
+  if (lines.length === 0) return null;
+
+  return (
+    <View style={{ marginTop: 2, color: inverted ? WHITE : "#374151" }}>
+      {lines.map((line, index) =>
+        line.kind === "bullet" ? (
+          <View key={index} style={styles.bullet}>
+            <Text style={styles.bulletMark}>•</Text>
+            <Text style={styles.bulletText}>{line.text}</Text>
+          </View>
+        ) : (
+          <Text key={index} style={{ marginTop: 2 }}>{line.text}</Text>
+        )
+      )}
+    </View>
+  );
+};
+
+const Links = ({ links, inverted }: { links: string[]; inverted?: boolean }) => {
+  const { size } = useTypography();
+  return links.length > 0 ? (
+    <Text style={{ fontSize: size(8.5), color: inverted ? WHITE : MUTED }}>{links.map(formatLink).join("  ·  ")}</Text>
+  ) : null;
+};
+
+const Tags = ({ colors, inverted, tags }: ThemeProps & { tags: string[] }) => {
+  const { size } = useTypography();
+  return tags.length > 0 ? (
+    <View style={[styles.row, { flexWrap: "wrap", marginTop: 4 }]}>
+      {tags.map((tag, index) => (
+        <Text
+          key={index}
+          style={{
+            borderRadius: 3,
+            paddingHorizontal: 4,
+            paddingVertical: 1,
+            marginRight: 3,
+            marginBottom: 3,
+            fontSize: size(8),
+            backgroundColor: inverted ? "rgba(255, 255, 255, 0.15)" : tint(colors.primary, 0.1),
+            color: inverted ? WHITE : colors.primary,
+          }}
+        >
+          {tag}
+        </Text>
+      ))}
+    </View>
+  ) : null;
+};
+
+/** A single list item, such as a job or a degree; never split across pages. */
+const Entry = ({ layout, colors, inverted, entry }: ThemeProps & { entry: SectionEntry }) => {
+  const { title, subtitle, dates, description, links, tags } = entry;
+  const { size } = useTypography();
+  const titleStyle: Style = { fontWeight: 600, fontSize: size(11), color: inverted ? WHITE : HEADING };
+  const subtitleStyle: Style = { color: inverted ? WHITE : colors.secondary };
+  const datesStyle: Style = { fontSize: size(8.5), color: inverted ? WHITE : MUTED };
+  const details = (
+    <>
+      <Links links={links} inverted={inverted} />
+      <Description text={description} inverted={inverted} />
+      <Tags layout={layout} colors={colors} inverted={inverted} tags={tags} />
+    </>
+  );
+
+  if (layout.datePlacement === "left") {
+    return (
+      <View wrap={false} style={[styles.entry, styles.row]}>
+        <Text style={[datesStyle, { width: 90, paddingTop: 1 }]}>{dates}</Text>
+        <View style={{ flex: 1 }}>
+          <Text style={titleStyle}>{title}</Text>
+          {subtitle ? <Text style={subtitleStyle}>{subtitle}</Text> : null}
+          {details}
+        </View>
+      </View>
+    );
+  }
+
+  if (layout.datePlacement === "below") {
+    return (
+      <View wrap={false} style={styles.entry}>
+        <Text style={titleStyle}>{title}</Text>
+        {subtitle ? <Text style={[subtitleStyle, { fontWeight: 600 }]}>{subtitle}</Text> : null}
+        {dates ? <Text style={datesStyle}>{dates}</Text> : null}
+        {details}
+      </View>
+    );
+  }
+
+  return (
+    <View wrap={false} style={styles.entry}>
+      <View style={[styles.row, { justifyContent: "space-between", alignItems: "flex-end" }]}>
+        <Text style={[titleStyle, { flex: 1, paddingRight: 12 }]}>{title}</Text>
+        <Text style={datesStyle}>{dates}</Text>
+      </View>
+      {subtitle ? <Text style={[subtitleStyle, { fontStyle: "italic" }]}>{subtitle}</Text> : null}
+      {details}
+    </View>
+  );
+};
+
+/** Skills and custom list sections, drawn in the layout's skill style. */
+const ItemList = ({ layout, colors, inverted, items }: ThemeProps & { items: string[] }) => {
+  const { size } = useTypography();
+  switch (layout.skillStyle) {
+    case "chips":
+      return (
+        <View style={[styles.row, { flexWrap: "wrap" }]}>
+          {items.map((item, index) => (
+            <Text
+              key={index}
+              style={{
+                borderWidth: 1,
+                borderColor: inverted ? WHITE : colors.primary,
+                borderRadius: 8,
+                paddingHorizontal: 6,
+                paddingVertical: 1,
+                marginRight: 4,
+                marginBottom: 4,
+                fontSize: size(8.5),
+                color: inverted ? WHITE : colors.primary,
+              }}
+            >
+              {item}
+            </Text>
+          ))}
+        </View>
+      );
+    case "list":
+      return (
+        <View style={{ color: inverted ? WHITE : "#374151" }}>
+          {items.map((item, index) => (
+            <View key={index} style={[styles.row, { alignItems: "center", marginBottom: 2 }]}>
+              <View style={{ width: 4, height: 4, borderRadius: 2, marginRight: 6, backgroundColor: colors.secondary }} />
+              <Text>{item}</Text>
+            </View>
+          ))}
+        </View>
+      );
+    case "inline":
+      return <Text style={{ color: inverted ? WHITE : "#374151" }}>{items.join("  ·  ")}</Text>;
+  }
+};
+
+const Section = ({ section, content, ...theme }: ThemeProps & { section: SectionKey; content: ResumeContent }) => {
+  const body = getSectionBody(content, section);
+
+  let children: ReactNode;
+  switch (body.kind) {
+    case "text":
+      children = <Description text={body.text} inverted={theme.inverted} />;
+      break;
+    case "list":
+      children = <ItemList {...theme} items={body.items} />;
+      break;
+    case "entries":
+      children = body.entries.map((entry) => <Entry key={entry.id} {...theme} entry={entry} />);
+      break;
+  }
+
+  return (
+    <View style={styles.section}>
+      <SectionHeading {...theme}>{getSectionTitle(content, section)}</SectionHeading>
+      {children}
+    </View>
+  );
+};
+
+const Header = ({ layout, colors, content, pagePadding }: ThemeProps & { content: ResumeContent; pagePadding: number }) => {
+  const name = content.personalInfo.fullName || "Your Name";
+  const contact = [content.personalInfo.email, content.personalInfo.phone, content.personalInfo.location].filter(Boolean);
+  const { size, headingFont } = useTypography();
+
+  switch (layout.header) {
+    case "centered":
+      return (
+        <View style={{ alignItems: "center", marginBottom: 20 }}>
+          <Text
+            style={{
+              fontFamily: headingFont,
+              fontSize: size(26),
+              fontWeight: 700,
+              textTransform: layout.font === "serif" ? "uppercase" : "none",
+              letterSpacing: layout.font === "serif" ? 3 : 0,
+              color: layout.font === "display" ? colors.secondary : HEADING,
+            }}
+          >
+            {name}
+          </Text>
+          <View style={{ width: 60, height: 1, marginVertical: 8, backgroundColor: colors.primary }} />
+          <Text style={{ color: "#4b5563" }}>{contact.join("  ·  ")}</Text>
+        </View>
+      );
+    case "split":
+      return (
+        <View
+          style={[styles.row, {
+            justifyContent: "space-between",
+            alignItems: "flex-end",
+            borderBottomWidth: 2,
+            borderBottomColor: colors.primary,
+            paddingBottom: 10,
+            marginBottom: 16,
+          }]}
+        >
+          <Text style={{ fontFamily: headingFont, fontSize: size(22), fontWeight: 700, color: HEADING }}>{name}</Text>
+          <View style={{ alignItems: "flex-end", color: "#4b5563" }}>
+            {contact.map((item, index) => <Text key={index}>{item}</Text>)}
+          </View>
+        </View>
+      );
+    case "banner":
+      return (
+        <View style={{ marginTop: -pagePadding, marginBottom: 20, paddingHorizontal: 40, paddingVertical: 28, backgroundColor: colors.primary }}>
+          <Text style={{ fontFamily: headingFont, fontSize: size(26), fontWeight: 700, color: WHITE }}>{name}</Text>
+          <Text style={{ marginTop: 4, color: WHITE }}>{contact.join("  |  ")}</Text>
+        </View>
+      );
+    case "stacked":
+      return (
+        <View style={{ marginBottom: 20 }}>
+          <Text style={{ fontFamily: headingFont, fontSize: size(26), color: HEADING }}>{name}</Text>
+          <View style={{ width: 32, height: 3, borderRadius: 2, marginVertical: 6, backgroundColor: colors.primary }} />
+          <Text style={{ color: MUTED }}>{contact.join("  ·  ")}</Text>
+        </View>
+      );
+  }
+};
+
+/**
+ * The react-pdf counterpart of `ResumeDocument`: same layouts, colors and
+ * design overrides, but laid out as real, paginated PDF pages with selectable
+ * text.
+ */
+const ResumePdfDocument = ({ content, template, title }: ResumePdfDocumentProps) => {
+  const design = resolveDesign(template, content.design);
+  const { layout } = design;
+  const theme = { layout, colors: design.colors };
+  const { main, sidebar } = splitSections(content, layout);
+  const pagePadding = PAGE_PADDING * design.margin;
+  const typography = { scale: design.fontScale, headingFont: pdfFontFamily(design.fonts.heading) };
+
+  const banner = layout.header === "banner";
+  const header = <Header {...theme} content={content} pagePadding={pagePadding} />;
+  const mainColumn = (
+    <View style={[styles.main, { paddingHorizontal: 40 * design.margin }]}>
+      {!banner && header}
+      {main.map((section) => (
+        <Section key={section} section={section} content={content} {...theme} />
+      ))}
+    </View>
+  );
+
+  const isLeft = layout.columns === "sidebar-left";
+  const coloredSidebar = layout.sidebarFill === "gradient";
+  const aside = (
+    <View style={[styles.sidebar, { paddingHorizontal: 24 * design.margin }]}>
+      {sidebar.map((section) => (
+        <Section key={section} section={section} content={content} {...theme} inverted={coloredSidebar} />
+      ))}
+    </View>
+  );
+
+  return (
+    <TypographyContext.Provider value={typography}>
+      <Document title={title} author={content.personalInfo.fullName} creator="Resume Builder">
+        <Page
+          size="A4"
+          style={[styles.page, {
+            paddingVertical: pagePadding,
+            fontFamily: pdfFontFamily(design.fonts.body),
+            fontSize: 10 * design.fontScale,
+            lineHeight: 1.4 * design.lineSpacing,
+          }]}
+        >
+          {layout.columns !== "single" && (
+            <View
+              fixed
+              style={[styles.sidebarBackground, isLeft ? { left: 0 } : { right: 0 }, coloredSidebar
+                ? { backgroundColor: theme.colors.primary }
+                : { backgroundColor: tint(theme.colors.primary, 0.06), borderLeftWidth: 4, borderLeftColor: theme.colors.secondary }]}
+            />
+          )}
+          {banner && header}
+          {layout.columns === "single" ? (
+            mainColumn
+          ) : (
+            <View style={styles.row}>
+              {isLeft && aside}
+              {mainColumn}
+              {!isLeft && aside}
+            </View>
+          )}
+        </Page>
+      </Document>
+    </TypographyContext.Provider>
+  );
+};
+
+export default ResumePdfDocument;
@@ -0,0 +1,33 @@
+import { useEffect, useRef, useState } from "react";
+import type { TemplateData } from "@/lib/resume";
+import { cn } from "@/lib/utils";
+import ResumeDocument from "./ResumeDocument";
+import { PAGE_WIDTH } from "./pagination";
+import { SAMPLE_RESUME } from "./sampleResume";
+
+/**
+ * A sample resume drawn in `template`, scaled to the container's width, so
+ * template cards need no screenshots.
+ */
+const TemplatePreview = ({ template, className }: { template: TemplateData; className?: string }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const observer = new ResizeObserver(() => setWidth(ref.current?.clientWidth ?? 0));
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div ref={ref} className={cn("pointer-events-none overflow-hidden bg-white", className)} aria-hidden>
+      {width > 0 && (
+        <div className="origin-top-left" style={{ width: PAGE_WIDTH, transform: `scale(${width / PAGE_WIDTH})` }}>
+          <ResumeDocument content={SAMPLE_RESUME} template={template} className="shadow-none" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePreview;
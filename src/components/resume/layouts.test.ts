@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TEMPLATE_DATA, createCustomSection, createEmptyResumeContent, type ResumeContent } from "@/lib/resume";
+import { getHiddenSections, getRenderedItemIndex, getStoredItemIndex, getVisibleSections, resolveDesign } from "./layouts";
+
+describe("list item positions", () => {
+  const content = { ...createEmptyResumeContent(), skills: ["", "React", " ", "SQL"] };
+
+  it("skips empty items when mapping rendered positions to stored ones", () => {
+    expect(getStoredItemIndex(content, "skills", 0)).toBe(1);
+    expect(getStoredItemIndex(content, "skills", 1)).toBe(3);
+    expect(getStoredItemIndex(content, "skills", 2)).toBe(-1);
+  });
+
+  it("maps stored positions back, with no position for empty items", () => {
+    expect([0, 1, 2, 3].map((index) => getRenderedItemIndex(content, "skills", index))).toEqual([-1, 0, -1, 1]);
+  });
+});
+
+describe("getHiddenSections", () => {
+  const content: ResumeContent = {
+    ...createEmptyResumeContent(),
+    personalInfo: { fullName: "Jane Doe", email: "", phone: "", location: "", summary: "Engineer." },
+    projects: [{
+      id: "p1", name: "Open Recipes", role: "", url: "", repository: "", technologies: [], startDate: "", endDate: "", description: "",
+    }],
+    customSections: [{ ...createCustomSection("Languages", "list"), items: ["German"] }],
+  };
+
+  it("lists the non-empty sections a template leaves out", () => {
+    const { layout } = resolveDesign({ ...DEFAULT_TEMPLATE_DATA, hiddenSections: ["projects", "certifications"] });
+
+    expect(getHiddenSections(content, layout)).toEqual(["projects"]);
+    expect(getVisibleSections(content, layout)).not.toContain("projects");
+  });
+
+  it("is empty when the template shows every section", () => {
+    const { layout } = resolveDesign(DEFAULT_TEMPLATE_DATA);
+
+    expect(getHiddenSections(content, layout)).toEqual([]);
+    expect(getVisibleSections(content, layout)).toContain("projects");
+  });
+});
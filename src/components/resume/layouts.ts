@@ -0,0 +1,378 @@
+import {
+  formatDateRange,
+  formatResumeDate,
+  formatValidity,
+  type ResumeContent,
+  type ResumeDesign,
+  type TemplateData,
+  type TemplateFont,
+} from "@/lib/resume";
+
+export type ResumeSection =
+  | "summary"
+  | "experience"
+  | "projects"
+  | "education"
+  | "certifications"
+  | "awards"
+  | "skills";
+
+export const SECTION_ORDER: ResumeSection[] = [
+  "summary",
+  "experience",
+  "projects",
+  "education",
+  "certifications",
+  "awards",
+  "skills",
+];
+
+export const SECTION_TITLES: Record<ResumeSection, string> = {
+  summary: "Profile",
+  experience: "Experience",
+  projects: "Projects",
+  education: "Education",
+  certifications: "Certifications",
+  awards: "Awards",
+  skills: "Skills",
+};
+
+/** A template's regions and slots, resolved for drawing. */
+export interface LayoutDefinition {
+  /** Where the sidebar sits, if the layout has one. */
+  columns: TemplateData["regions"]["columns"];
+  header: TemplateData["slots"]["header"];
+  heading: TemplateData["slots"]["heading"];
+  /** The heading font; the header styles the name to suit it. */
+  font: TemplateFont;
+  skillStyle: TemplateData["slots"]["list"];
+  datePlacement: TemplateData["slots"]["dates"];
+  /** Sections moved into the sidebar for two-column layouts. */
+  sidebarSections: ResumeSection[];
+  sidebarFill: TemplateData["regions"]["sidebarFill"];
+  /** Built-in sections the layout leaves out, even when they have content. */
+  hiddenSections: ResumeSection[];
+}
+
+/** Font families shared by the HTML preview and the embedded PDF fonts. */
+export const FONT_FAMILIES: Record<TemplateFont, string> = {
+  serif: "Source Serif 4",
+  sans: "Inter",
+  display: "Playfair Display",
+};
+
+export const FONT_STACKS: Record<TemplateFont, string> = {
+  serif: `"${FONT_FAMILIES.serif}", Georgia, Cambria, "Times New Roman", serif`,
+  sans: `"${FONT_FAMILIES.sans}", "Helvetica Neue", Arial, sans-serif`,
+  display: `"${FONT_FAMILIES.display}", Georgia, serif`,
+};
+
+/** Turns a `#rrggbb` template color into an `rgba()` tint. */
+export const tint = (hex: string, alpha: number) => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return hex;
+
+  const [r, g, b] = match.slice(1).map((part) => parseInt(part, 16));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+export const FONT_PAIRINGS: Record<NonNullable<ResumeDesign["fonts"]>, { heading: TemplateFont; body: TemplateFont }> = {
+  sans: { heading: "sans", body: "sans" },
+  serif: { heading: "serif", body: "serif" },
+  display: { heading: "display", body: "display" },
+  "serif-sans": { heading: "serif", body: "sans" },
+  "display-sans": { heading: "display", body: "sans" },
+};
+
+/** Multipliers for the page padding and the line height. */
+export const MARGINS: Record<NonNullable<ResumeDesign["margins"]>, number> = { narrow: 0.6, normal: 1, wide: 1.4 };
+export const LINE_SPACING: Record<NonNullable<ResumeDesign["lineSpacing"]>, number> = { tight: 0.88, normal: 1, relaxed: 1.15 };
+
+// Sections a single-column template moves aside when switched to two columns.
+const DEFAULT_SIDEBAR_SECTIONS: ResumeSection[] = ["skills", "education", "certifications"];
+
+/** A template with a resume's design overrides applied, as every renderer draws it. */
+export interface ResolvedDesign {
+  layout: LayoutDefinition;
+  colors: TemplateData["colors"];
+  fonts: { heading: TemplateFont; body: TemplateFont };
+  fontScale: number;
+  margin: number;
+  lineSpacing: number;
+}
+
+/**
+ * Interprets a template definition for the renderers. The HTML document, the
+ * PDF (and with it thumbnails) and the Word export all draw from this, so a
+ * template looks the same everywhere.
+ */
+export const resolveDesign = (template: TemplateData, design: ResumeDesign = {}): ResolvedDesign => {
+  const { typography, regions, slots } = template;
+  const fonts = design.fonts
+    ? FONT_PAIRINGS[design.fonts]
+    : { heading: typography.headingFont, body: typography.bodyFont };
+
+  let columns = regions.columns;
+  let sidebarSections: ResumeSection[] = regions.sidebar;
+  if (design.columns === "one") {
+    columns = "single";
+    sidebarSections = [];
+  } else if (design.columns === "two" && columns === "single") {
+    columns = "sidebar-right";
+    sidebarSections = DEFAULT_SIDEBAR_SECTIONS;
+  }
+
+  return {
+    // The header follows the heading font, e.g. spaced capitals for serif names.
+    layout: {
+      columns,
+      header: slots.header,
+      heading: design.heading ?? slots.heading,
+      font: fonts.heading,
+      skillStyle: slots.list,
+      datePlacement: slots.dates,
+      sidebarSections,
+      sidebarFill: regions.sidebarFill,
+      hiddenSections: template.hiddenSections,
+    },
+    colors: {
+      primary: design.primaryColor ?? template.colors.primary,
+      secondary: design.secondaryColor ?? template.colors.secondary,
+    },
+    fonts,
+    fontScale: typography.size * (design.fontScale ?? 1),
+    margin: MARGINS[design.margins ?? "normal"],
+    lineSpacing: typography.leading * LINE_SPACING[design.lineSpacing ?? "normal"],
+  };
+};
+
+/** A user-defined section, addressed as `custom:<id>`. */
+export type CustomSectionKey = `custom:${string}`;
+export type SectionKey = ResumeSection | CustomSectionKey;
+
+export const customSectionKey = (id: string): CustomSectionKey => `custom:${id}`;
+
+const isCustomKey = (key: SectionKey): key is CustomSectionKey => key.startsWith("custom:");
+
+const findCustomSection = (content: ResumeContent, key: CustomSectionKey) =>
+  content.customSections.find((section) => customSectionKey(section.id) === key);
+
+/** One list item, already formatted, shared by the HTML, PDF and Word renderers. */
+export interface SectionEntry {
+  id: string;
+  title: string;
+  subtitle: string;
+  dates: string;
+  description: string;
+  /** URLs, printed without their protocol. */
+  links: string[];
+  tags: string[];
+}
+
+/** What a section draws under its heading. */
+export type SectionBody =
+  | { kind: "text"; text: string }
+  | { kind: "list"; items: string[] }
+  | { kind: "entries"; entries: SectionEntry[] };
+
+const entry = (fields: Omit<SectionEntry, "links" | "tags"> & Partial<Pick<SectionEntry, "links" | "tags">>): SectionEntry => ({
+  links: [],
+  tags: [],
+  ...fields,
+});
+
+export const getSectionTitle = (content: ResumeContent, key: SectionKey) =>
+  isCustomKey(key) ? findCustomSection(content, key)?.title ?? "" : SECTION_TITLES[key];
+
+export const getSectionBody = (content: ResumeContent, key: SectionKey): SectionBody => {
+  if (isCustomKey(key)) {
+    const section = findCustomSection(content, key);
+    if (!section) return { kind: "entries", entries: [] };
+    if (section.kind === "list") {
+      return { kind: "list", items: section.items.filter((item) => item.trim()) };
+    }
+    return {
+      kind: "entries",
+      entries: section.entries.map((item) => entry({
+        id: item.id,
+        title: item.title,
+        subtitle: item.subtitle,
+        dates: item.endDate ? formatDateRange(item.startDate, item.endDate) : formatResumeDate(item.startDate),
+        description: item.description,
+        links: item.url ? [item.url] : [],
+      })),
+    };
+  }
+
+  switch (key) {
+    case "summary":
+      return { kind: "text", text: content.personalInfo.summary };
+    case "skills":
+      return { kind: "list", items: content.skills.filter((skill) => skill.trim()) };
+    case "experience":
+      return {
+        kind: "entries",
+        entries: content.experience.map((exp) => entry({
+          id: exp.id,
+          title: exp.position,
+          subtitle: exp.company,
+          dates: formatDateRange(exp.startDate, exp.endDate),
+          description: exp.description,
+        })),
+      };
+    case "projects":
+      return {
+        kind: "entries",
+        entries: content.projects.map((project) => entry({
+          id: project.id,
+          title: project.name,
+          subtitle: project.role,
+          dates: formatDateRange(project.startDate, project.endDate),
+          description: project.description,
+          links: [project.url, project.repository].filter(Boolean),
+          tags: project.technologies,
+        })),
+      };
+    case "education":
+      return {
+        kind: "entries",
+        entries: content.education.map((edu) => entry({
+          id: edu.id,
+          title: edu.degree,
+          subtitle: edu.school,
+          dates: formatDateRange(edu.startDate, edu.endDate),
+          description: edu.description,
+        })),
+      };
+    case "certifications":
+      return {
+        kind: "entries",
+        entries: content.certifications.map((cert) => entry({
+          id: cert.id,
+          title: cert.name,
+          subtitle: cert.issuer,
+          dates: formatValidity(cert.issueDate, cert.expiryDate),
+          description: cert.credentialId ? `Credential ID: ${cert.credentialId}` : "",
+          links: cert.url ? [cert.url] : [],
+        })),
+      };
+    case "awards":
+      return {
+        kind: "entries",
+        entries: content.awards.map((award) => entry({
+          id: award.id,
+          title: award.title,
+          subtitle: award.awarder,
+          dates: formatResumeDate(award.date),
+          description: award.description,
+        })),
+      };
+  }
+};
+
+/** A part of a rendered entry, as tagged with `data-field` in the preview. */
+export type EntrySlot = Exclude<keyof SectionEntry, "id">;
+
+const DATE_FIELDS: Record<string, EntrySlot> = { startDate: "dates", endDate: "dates" };
+
+/** Which part of a rendered entry each editable field of a section ends up in. */
+const ENTRY_SLOTS: Record<Exclude<ResumeSection, "summary" | "skills"> | "custom", Record<string, EntrySlot>> = {
+  experience: { position: "title", company: "subtitle", ...DATE_FIELDS, description: "description" },
+  projects: {
+    name: "title",
+    role: "subtitle",
+    ...DATE_FIELDS,
+    description: "description",
+    url: "links",
+    repository: "links",
+    technologies: "tags",
+  },
+  education: { degree: "title", school: "subtitle", ...DATE_FIELDS, description: "description" },
+  certifications: {
+    name: "title",
+    issuer: "subtitle",
+    issueDate: "dates",
+    expiryDate: "dates",
+    credentialId: "description",
+    url: "links",
+  },
+  awards: { title: "title", awarder: "subtitle", date: "dates", description: "description" },
+  custom: { title: "title", subtitle: "subtitle", ...DATE_FIELDS, description: "description", url: "links" },
+};
+
+export const getEntrySlot = (key: SectionKey, field: string): EntrySlot | undefined =>
+  (isCustomKey(key) ? ENTRY_SLOTS.custom : ENTRY_SLOTS[key as keyof typeof ENTRY_SLOTS])?.[field];
+
+/** The editable fields shown in `slot` of a rendered entry, or all of them. */
+export const getSlotFields = (key: SectionKey, slot?: string): string[] => {
+  const slots = isCustomKey(key) ? ENTRY_SLOTS.custom : ENTRY_SLOTS[key as keyof typeof ENTRY_SLOTS];
+  if (!slots) return [];
+  return Object.keys(slots).filter((field) => !slot || slots[field] === slot);
+};
+
+const getStoredItems = (content: ResumeContent, key: SectionKey) =>
+  isCustomKey(key) ? findCustomSection(content, key)?.items ?? [] : key === "skills" ? content.skills : [];
+
+/**
+ * Where the `index`-th rendered item of a list section is stored. Empty items
+ * are not rendered, so the two positions can differ.
+ */
+export const getStoredItemIndex = (content: ResumeContent, key: SectionKey, index: number) => {
+  let rendered = -1;
+  return getStoredItems(content, key).findIndex((item) => item.trim() !== "" && ++rendered === index);
+};
+
+/** Where the stored item at `index` is rendered, or -1 for an empty item. */
+export const getRenderedItemIndex = (content: ResumeContent, key: SectionKey, index: number) => {
+  const items = getStoredItems(content, key);
+  if (!items[index]?.trim()) return -1;
+  return items.slice(0, index).filter((item) => item.trim() !== "").length;
+};
+
+export const hasSection = (content: ResumeContent, key: SectionKey) => {
+  const body = getSectionBody(content, key);
+  switch (body.kind) {
+    case "text":
+      return body.text.trim().length > 0;
+    case "list":
+      return body.items.length > 0;
+    case "entries":
+      return body.entries.length > 0;
+  }
+};
+
+/**
+ * Every section of the resume in display order: the user's `sectionOrder`
+ * first, then any remaining built-in sections followed by custom ones.
+ */
+export const getSectionKeys = (content: ResumeContent): SectionKey[] => {
+  const available: SectionKey[] = [
+    ...SECTION_ORDER,
+    ...content.customSections.map((section) => customSectionKey(section.id)),
+  ];
+  const ordered = content.sectionOrder.filter((key): key is SectionKey => available.includes(key as SectionKey));
+  return [...new Set([...ordered, ...available])];
+};
+
+const isHiddenBy = (layout: LayoutDefinition, key: SectionKey) => layout.hiddenSections.includes(key as ResumeSection);
+
+/** The non-empty sections `layout` shows, in display order. */
+export const getVisibleSections = (content: ResumeContent, layout: LayoutDefinition) =>
+  getSectionKeys(content).filter((key) => hasSection(content, key) && !isHiddenBy(layout, key));
+
+/** The non-empty sections `layout` leaves out, e.g. to warn before switching to it. */
+export const getHiddenSections = (content: ResumeContent, layout: LayoutDefinition) =>
+  getSectionKeys(content).filter((key) => hasSection(content, key) && isHiddenBy(layout, key));
+
+/** Splits the shown sections between the main column and the sidebar. */
+export const splitSections = (content: ResumeContent, layout: LayoutDefinition) => {
+  const visible = getVisibleSections(content, layout);
+  const sidebar = layout.columns === "single"
+    ? []
+    : visible.filter((key) => layout.sidebarSections.includes(key as ResumeSection));
+
+  return {
+    main: visible.filter((key) => !sidebar.includes(key)),
+    sidebar,
+  };
+};
@@ -0,0 +1,62 @@
+// A4 at 96 dpi, matching the 210mm × 297mm document.
+export const PAGE_WIDTH = 794;
+export const PAGE_HEIGHT = 1123;
+
+// The PDF's `minPresenceAhead={48}` on headings, in CSS pixels.
+const KEEP_WITH_NEXT = 64;
+
+interface PaginateOptions {
+  /** The page's top and bottom margin, which every page repeats. */
+  padding: number;
+  /** The design's font scale, applied to the content with CSS `zoom`. */
+  zoom: number;
+}
+
+/**
+ * Moves blocks of a rendered `ResumeDocument` down so that no block crosses a
+ * page edge, following the PDF's rules: entries and other `avoid` blocks move
+ * whole, headings move with the start of what follows, and every page keeps
+ * its margins. Each column flows on its own, as in the PDF. Returns the number
+ * of pages.
+ */
+export const paginateDocument = (root: HTMLElement, { padding, zoom }: PaginateOptions) => {
+  for (const element of root.querySelectorAll<HTMLElement>("[data-page-push]")) {
+    element.style.removeProperty("margin-top");
+    element.removeAttribute("data-page-push");
+  }
+
+  const origin = root.getBoundingClientRect();
+  // The preview may be scaled down to fit its panel.
+  const scale = origin.width / PAGE_WIDTH || 1;
+  let bottom = 0;
+
+  for (const element of root.querySelectorAll<HTMLElement>("[data-break]")) {
+    // Blocks inside a block that moves whole move with it.
+    if (element.parentElement?.closest('[data-break="avoid"]')) continue;
+
+    const rect = element.getBoundingClientRect();
+    const top = (rect.top - origin.top) / scale;
+    const height = rect.height / scale;
+    const needed = height + (element.dataset.break === "keep-with-next" ? KEEP_WITH_NEXT : 0);
+
+    const page = Math.floor(top / PAGE_HEIGHT);
+    const pageTop = page * PAGE_HEIGHT + padding;
+    const pageBottom = (page + 1) * PAGE_HEIGHT - padding;
+
+    let push = 0;
+    if (top < pageTop && page > 0) {
+      push = pageTop - top;
+    } else if (top + needed > pageBottom && top > pageTop) {
+      push = pageBottom + 2 * padding - top;
+    }
+
+    if (push > 0) {
+      const margin = parseFloat(getComputedStyle(element).marginTop) || 0;
+      element.style.marginTop = `${margin + push / zoom}px`;
+      element.setAttribute("data-page-push", "");
+    }
+    bottom = Math.max(bottom, top + push + height);
+  }
+
+  return Math.max(1, Math.ceil((bottom + padding) / PAGE_HEIGHT));
+};
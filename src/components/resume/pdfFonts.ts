@@ -0,0 +1,58 @@
+import { Font } from "@react-pdf/renderer";
+import type { TemplateFont } from "@/lib/resume";
+import { FONT_FAMILIES } from "./layouts";
+
+const PACKAGES: Record<TemplateFont, string> = {
+  sans: "inter",
+  serif: "source-serif-4",
+  display: "playfair-display",
+};
+
+// Fontsource ships each script as its own file; react-pdf picks a glyph from
+// the first family in `fontFamily` that has it.
+const SUBSETS = ["latin", "latin-ext", "cyrillic"] as const;
+
+const FILES = import.meta.glob<string>(
+  [
+    "/node_modules/@fontsource/{inter,source-serif-4,playfair-display}/files/*-{latin,latin-ext,cyrillic}-{400,600,700}-normal.woff",
+    "/node_modules/@fontsource/{inter,source-serif-4,playfair-display}/files/*-{latin,latin-ext,cyrillic}-400-italic.woff",
+  ],
+  { eager: true, query: "?url", import: "default" }
+);
+
+const subsetFamily = (font: TemplateFont, subset: (typeof SUBSETS)[number]) =>
+  subset === "latin" ? FONT_FAMILIES[font] : `${FONT_FAMILIES[font]} ${subset}`;
+
+/** The react-pdf `fontFamily` for a template font, with its other scripts as fallbacks. */
+export const pdfFontFamily = (font: TemplateFont) => SUBSETS.map((subset) => subsetFamily(font, subset));
+
+let registered = false;
+
+/**
+ * Registers the template fonts with react-pdf so they are embedded in exported
+ * files instead of falling back to the standard PDF fonts.
+ */
+export const registerPdfFonts = () => {
+  if (registered) return;
+  registered = true;
+
+  for (const font of Object.keys(PACKAGES) as TemplateFont[]) {
+    for (const subset of SUBSETS) {
+      const file = (weight: number, style: string) =>
+        FILES[`/node_modules/@fontsource/${PACKAGES[font]}/files/${PACKAGES[font]}-${subset}-${weight}-${style}.woff`];
+
+      Font.register({
+        family: subsetFamily(font, subset),
+        fonts: [
+          { src: file(400, "normal"), fontWeight: 400 },
+          { src: file(400, "italic"), fontWeight: 400, fontStyle: "italic" },
+          { src: file(600, "normal"), fontWeight: 600 },
+          { src: file(700, "normal"), fontWeight: 700 },
+        ],
+      });
+    }
+  }
+
+  // Keep whole words together rather than hyphenating mid-word.
+  Font.registerHyphenationCallback((word) => [word]);
+};
@@ -0,0 +1,66 @@
+import { createEmptyResumeContent, type ResumeContent } from "@/lib/resume";
+
+/** Placeholder content for showing off a template before it is picked. */
+export const SAMPLE_RESUME: ResumeContent = {
+  ...createEmptyResumeContent(),
+  personalInfo: {
+    fullName: "Alex Morgan",
+    email: "alex.morgan@example.com",
+    phone: "+1 555 010 2030",
+    location: "Portland, OR",
+    summary: "Product engineer with eight years of experience building web applications people enjoy using, from first prototype to millions of users.",
+  },
+  experience: [
+    {
+      id: "sample-experience-1",
+      company: "Northwind",
+      position: "Senior Software Engineer",
+      startDate: "2021-03",
+      endDate: "",
+      description: "- Led the rebuild of the customer dashboard, cutting load times by 60%\n- Mentored four engineers and introduced design reviews",
+    },
+    {
+      id: "sample-experience-2",
+      company: "Contoso",
+      position: "Software Engineer",
+      startDate: "2017-06",
+      endDate: "2021-02",
+      description: "- Shipped the billing platform used by 20,000 businesses\n- Owned the public API and its documentation",
+    },
+  ],
+  education: [
+    {
+      id: "sample-education-1",
+      school: "State University",
+      degree: "BSc Computer Science",
+      startDate: "2013-09",
+      endDate: "2017-05",
+      description: "",
+    },
+  ],
+  projects: [
+    {
+      id: "sample-project-1",
+      name: "Open Recipes",
+      role: "Maintainer",
+      url: "https://example.com/recipes",
+      repository: "",
+      technologies: ["TypeScript", "React"],
+      startDate: "2020-01",
+      endDate: "",
+      description: "A community recipe site with 5,000 monthly visitors.",
+    },
+  ],
+  certifications: [
+    {
+      id: "sample-certification-1",
+      name: "Cloud Architect",
+      issuer: "Example Cloud",
+      credentialId: "",
+      issueDate: "2022-04",
+      expiryDate: "",
+      url: "",
+    },
+  ],
+  skills: ["TypeScript", "React", "Node.js", "PostgreSQL", "Product design"],
+};
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type AutosaveStatus = "saved" | "unsaved" | "saving" | "offline" | "error";
+
+interface AutosaveOptions<T> {
+  value: T;
+  save: (value: T) => Promise<void>;
+  /** Autosave stays idle until this is true, e.g. while the record loads. */
+  enabled?: boolean;
+  /** Milliseconds of inactivity before changes are saved. */
+  delay?: number;
+  /** Failures this returns false for, e.g. conflicts, are not retried. */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/** Waits between failed attempts before giving up until the next edit or retry. */
+const RETRY_DELAYS = [1000, 2000, 4000, 8000, 16000];
+
+/**
+ * Debounced autosave. The value is compared by its JSON so re-renders that
+ * don't change it never trigger a save. Only one save runs at a time; edits
+ * made meanwhile are picked up by the next one. Failed saves are retried with
+ * exponential backoff, and saves are held while the browser is offline.
+ */
+export const useAutosave = <T>({ value, save, enabled = true, delay = 1500, shouldRetry }: AutosaveOptions<T>) => {
+  const [status, setStatus] = useState<AutosaveStatus>("saved");
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const snapshot = JSON.stringify(value);
+  const latest = useRef({ value, snapshot, save, shouldRetry });
+  latest.current = { value, snapshot, save, shouldRetry };
+
+  const savedSnapshot = useRef<string | null>(null);
+  const inFlight = useRef<Promise<boolean> | null>(null);
+  const timer = useRef<number>();
+  const attempts = useRef(0);
+
+  const schedule = useCallback((callback: () => void, wait: number) => {
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(callback, wait);
+  }, []);
+
+  const flush = useCallback(async (): Promise<boolean> => {
+    window.clearTimeout(timer.current);
+    while (inFlight.current) await inFlight.current;
+
+    const { value, snapshot, save } = latest.current;
+    if (snapshot === savedSnapshot.current) {
+      setStatus("saved");
+      return true;
+    }
+    if (!navigator.onLine) {
+      setStatus("offline");
+      return false;
+    }
+
+    setStatus("saving");
+    const request = save(value).then(
+      () => {
+        savedSnapshot.current = snapshot;
+        attempts.current = 0;
+        setIsRetrying(false);
+        setLastSavedAt(new Date());
+        setStatus(latest.current.snapshot === snapshot ? "saved" : "unsaved");
+        return true;
+      },
+      (error) => {
+        if (!navigator.onLine) {
+          setStatus("offline");
+          return false;
+        }
+        const retryable = latest.current.shouldRetry?.(error) ?? true;
+        const wait = retryable ? RETRY_DELAYS[attempts.current] : undefined;
+        attempts.current += 1;
+        setIsRetrying(wait !== undefined);
+        if (wait !== undefined) schedule(() => void flush(), wait);
+        setStatus("error");
+        return false;
+      }
+    );
+
+    inFlight.current = request;
+    try {
+      return await request;
+    } finally {
+      inFlight.current = null;
+    }
+  }, [schedule]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (savedSnapshot.current === null) {
+      savedSnapshot.current = snapshot;
+      return;
+    }
+    if (snapshot === savedSnapshot.current) return;
+
+    setStatus(navigator.onLine ? "unsaved" : "offline");
+    schedule(() => void flush(), delay);
+  }, [enabled, snapshot, delay, schedule, flush]);
+
+  useEffect(() => {
+    const handleOnline = () => void flush();
+    const handleOffline = () => setStatus("offline");
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.clearTimeout(timer.current);
+    };
+  }, [flush]);
+
+  const hasUnsavedChanges = savedSnapshot.current !== null && (status === "saving" || snapshot !== savedSnapshot.current);
+
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  /** Saves immediately, skipping the debounce and any pending backoff. */
+  const saveNow = useCallback(() => {
+    attempts.current = 0;
+    return flush();
+  }, [flush]);
+
+  return { status, lastSavedAt, isRetrying, hasUnsavedChanges, saveNow };
+};
@@ -0,0 +1,15 @@
+import { useRef } from "react";
+
+/**
+ * Ids for a list of plain values, such as skills, so rows keep their identity
+ * while being edited and dragged. Items added at the end get new ids; callers
+ * remove or reorder the ids along with the values. Any other change in length,
+ * e.g. an undo, keeps the ids by position.
+ */
+export const useListIds = (length: number) => {
+  const ids = useRef<string[]>([]);
+  if (ids.current.length !== length) {
+    ids.current = Array.from({ length }, (_, index) => ids.current[index] ?? crypto.randomUUID());
+  }
+  return ids;
+};
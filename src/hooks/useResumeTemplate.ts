@@ -0,0 +1,48 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_TEMPLATE_DATA, parseTemplateData, type TemplateData } from "@/lib/resume";
+
+/**
+ * Loads the `resume_templates` row a resume points at. Unknown template ids
+ * fall back to the default look rather than failing.
+ */
+export const fetchResumeTemplate = async (templateId: string) => {
+  const { data } = await supabase
+    .from("resume_templates")
+    .select("name, template_data")
+    .eq("id", templateId)
+    .maybeSingle();
+
+  return {
+    name: data?.name ?? templateId,
+    template: parseTemplateData(data?.template_data),
+  };
+};
+
+export const useResumeTemplate = (templateId: string | undefined) => {
+  const [template, setTemplate] = useState<TemplateData>(DEFAULT_TEMPLATE_DATA);
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    if (!templateId) return;
+
+    let cancelled = false;
+    fetchResumeTemplate(templateId).then((result) => {
+      if (cancelled) return;
+      setName(result.name);
+      setTemplate(result.template);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId]);
+
+  // Shows an already loaded template straight away, e.g. one picked from a list.
+  const showTemplate = (loaded: { name: string; template: TemplateData }) => {
+    setName(loaded.name);
+    setTemplate(loaded.template);
+  };
+
+  return { template, name, showTemplate };
+};
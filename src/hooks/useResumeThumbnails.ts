@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { renderResumeThumbnail } from "@/lib/export/thumbnail";
+import { parseResumeContent, type ResumeContent, type TemplateData } from "@/lib/resume";
+import { fetchResumeTemplate } from "./useResumeTemplate";
+
+const BUCKET = "resume-thumbnails";
+// Signed URLs outlive a dashboard visit; thumbnails are fetched again on the next one.
+const URL_LIFETIME_SECONDS = 60 * 60;
+
+const fileName = (resumeId: string) => `${resumeId}.jpg`;
+
+const getUserId = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id;
+};
+
+/**
+ * Renders a resume's first page and stores it as its Dashboard thumbnail,
+ * under the owner's folder in the `resume-thumbnails` bucket.
+ */
+export const saveResumeThumbnail = async (
+  resumeId: string,
+  resume: { title: string; content: ResumeContent },
+  template: TemplateData
+) => {
+  const userId = await getUserId();
+  if (!userId) return;
+
+  const image = await renderResumeThumbnail(resume.content, template, resume.title);
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(`${userId}/${fileName(resumeId)}`, image, { contentType: "image/jpeg", upsert: true });
+
+  if (error) throw error;
+};
+
+export const deleteResumeThumbnail = async (resumeId: string) => {
+  const userId = await getUserId();
+  if (!userId) return;
+
+  await supabase.storage.from(BUCKET).remove([`${userId}/${fileName(resumeId)}`]);
+};
+
+/**
+ * Removes thumbnails whose resume no longer exists. The nightly trash purge
+ * runs in the database, which cannot delete storage objects, so they are
+ * cleared the next time their owner opens the Dashboard.
+ */
+const removeOrphanedThumbnails = async (userId: string, names: string[]) => {
+  const { data: rows, error } = await supabase.from("resumes").select("id").eq("user_id", userId);
+  if (error) return;
+
+  const kept = new Set(rows.map((row) => fileName(row.id)));
+  const orphans = names.filter((name) => !kept.has(name));
+  if (orphans.length > 0) {
+    await supabase.storage.from(BUCKET).remove(orphans.map((name) => `${userId}/${name}`));
+  }
+};
+
+interface ThumbnailSource {
+  id: string;
+  title: string;
+  template_id: string;
+  content: Json;
+  updated_at: string;
+}
+
+/**
+ * Thumbnail URLs by resume id. Stored thumbnails older than their resume's
+ * `updated_at`, which only edits to its title, content or template move, e.g.
+ * after edits in another session, are rendered again in the background one
+ * at a time and show up as they finish.
+ */
+export const useResumeThumbnails = (resumes: ThumbnailSource[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const versions = resumes.map((resume) => `${resume.id}:${resume.updated_at}`).join(",");
+  // Callers pass a new array on every render; only a change in `versions` reloads.
+  const latest = useRef(resumes);
+  latest.current = resumes;
+
+  useEffect(() => {
+    const resumes = latest.current;
+    if (resumes.length === 0) return;
+
+    let cancelled = false;
+
+    const showThumbnails = async (userId: string, ids: string[]) => {
+      if (ids.length === 0) return;
+
+      const { data } = await supabase.storage
+        .from(BUCKET)
+        .createSignedUrls(ids.map((id) => `${userId}/${fileName(id)}`), URL_LIFETIME_SECONDS);
+      if (cancelled || !data) return;
+
+      const signed = Object.fromEntries(
+        data.flatMap((item, index) => (item.signedUrl ? [[ids[index], item.signedUrl]] : []))
+      );
+      setUrls((current) => ({ ...current, ...signed }));
+    };
+
+    const load = async () => {
+      const userId = await getUserId();
+      if (!userId) return;
+
+      const { data: files } = await supabase.storage.from(BUCKET).list(userId, { limit: 1000 });
+      await removeOrphanedThumbnails(userId, (files ?? []).map((file) => file.name));
+      if (cancelled) return;
+
+      const savedAt = new Map((files ?? []).map((file) => [file.name, new Date(file.updated_at).getTime()]));
+      const isFresh = (resume: ThumbnailSource) =>
+        (savedAt.get(fileName(resume.id)) ?? 0) >= new Date(resume.updated_at).getTime();
+
+      // Outdated thumbnails still beat a placeholder while their replacement renders.
+      await showThumbnails(userId, resumes.filter((resume) => savedAt.has(fileName(resume.id))).map((resume) => resume.id));
+
+      const templates = new Map<string, TemplateData>();
+      for (const resume of resumes.filter((item) => !isFresh(item))) {
+        if (cancelled) return;
+        try {
+          if (!templates.has(resume.template_id)) {
+            templates.set(resume.template_id, (await fetchResumeTemplate(resume.template_id)).template);
+          }
+          await saveResumeThumbnail(
+            resume.id,
+            { title: resume.title, content: parseResumeContent(resume.content) },
+            templates.get(resume.template_id)
+          );
+          await showThumbnails(userId, [resume.id]);
+        } catch (error) {
+          console.error("Error rendering thumbnail:", error);
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [versions]);
+
+  return urls;
+};
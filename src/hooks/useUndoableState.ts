@@ -0,0 +1,126 @@
+import { useCallback, useState } from "react";
+
+interface UndoableStateOptions {
+  /** Oldest steps are dropped beyond this many. */
+  limit?: number;
+  /** Edits to the same text field within this many milliseconds form one step. */
+  coalesceWithin?: number;
+}
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** The text field the latest step edited, while it can still be extended. */
+  lastPath: string | null;
+  lastChangedAt: number;
+}
+
+type Updater<T> = T | ((current: T) => T);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+/**
+ * The path of the single string that differs between two values, or null when
+ * the change is structural (items added, removed or reordered) or touches
+ * several fields. Unchanged subtrees are skipped by reference.
+ */
+const findEditedText = (before: unknown, after: unknown, path = ""): string | null | undefined => {
+  if (before === after) return undefined;
+  if (typeof before === "string" && typeof after === "string") return path;
+  if (!isRecord(before) || !isRecord(after) || Array.isArray(before) !== Array.isArray(after)) return null;
+
+  if (Array.isArray(before) && before.length !== after.length) return null;
+
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  let edited: string | undefined;
+  for (const key of keys) {
+    const result = findEditedText(before[key], after[key], `${path}/${key}`);
+    if (result === undefined) continue;
+    if (result === null || edited !== undefined) return null;
+    edited = result;
+  }
+  return edited;
+};
+
+/**
+ * State with an undo/redo history. Typing into a field is recorded as one
+ * step per burst rather than one per keystroke; any other change starts a
+ * new step.
+ */
+export const useUndoableState = <T>(
+  initial: T | (() => T),
+  { limit = 100, coalesceWithin = 1000 }: UndoableStateOptions = {}
+) => {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: initial instanceof Function ? initial() : initial,
+    future: [],
+    lastPath: null,
+    lastChangedAt: 0,
+  }));
+
+  const set = useCallback((update: Updater<T>) => {
+    setHistory((current) => {
+      const next = update instanceof Function ? update(current.present) : update;
+      if (Object.is(next, current.present)) return current;
+
+      const now = Date.now();
+      const path = findEditedText(current.present, next) ?? null;
+      const extendsLastStep = path !== null
+        && path === current.lastPath
+        && now - current.lastChangedAt < coalesceWithin;
+
+      return {
+        past: extendsLastStep ? current.past : [...current.past, current.present].slice(-limit),
+        present: next,
+        future: [],
+        lastPath: path,
+        lastChangedAt: now,
+      };
+    });
+  }, [limit, coalesceWithin]);
+
+  /** Replaces the state and clears the history, e.g. after loading a record. */
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], lastPath: null, lastChangedAt: 0 });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((current) => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+        lastPath: null,
+        lastChangedAt: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((current) => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+        lastPath: null,
+        lastChangedAt: 0,
+      };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -44,6 +44,75 @@ export type Database = {
         }
         Relationships: []
       }
+      resume_folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      resume_revisions: {
+        Row: {
+          content: Json
+          created_at: string
+          id: string
+          restored_from: string | null
+          resume_id: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          content?: Json
+          created_at?: string
+          id?: string
+          restored_from?: string | null
+          resume_id: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          id?: string
+          restored_from?: string | null
+          resume_id?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resume_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "resume_revisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resume_revisions_resume_id_fkey"
+            columns: ["resume_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       resume_templates: {
         Row: {
           category: string
@@ -84,8 +153,13 @@ export type Database = {
         Row: {
           content: Json
           created_at: string
+          deleted_at: string | null
+          folder_id: string | null
           id: string
           is_public: boolean | null
+          parent_id: string | null
+          parent_synced_content: Json | null
+          tags: string[]
           template_id: string
           title: string
           updated_at: string
@@ -94,8 +168,13 @@ export type Database = {
         Insert: {
           content?: Json
           created_at?: string
+          deleted_at?: string | null
+          folder_id?: string | null
           id?: string
           is_public?: boolean | null
+          parent_id?: string | null
+          parent_synced_content?: Json | null
+          tags?: string[]
           template_id?: string
           title?: string
           updated_at?: string
@@ -104,13 +183,63 @@ export type Database = {
         Update: {
           content?: Json
           created_at?: string
+          deleted_at?: string | null
+          folder_id?: string | null
           id?: string
           is_public?: boolean | null
+          parent_id?: string | null
+          parent_synced_content?: Json | null
+          tags?: string[]
           template_id?: string
           title?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "resumes_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "resume_folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resumes_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_resume_templates: {
+        Row: {
+          content: Json
+          created_at: string
+          id: string
+          name: string
+          template_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content?: Json
+          created_at?: string
+          id?: string
+          name: string
+          template_id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          id?: string
+          name?: string
+          template_id?: string
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
     }
@@ -118,7 +247,28 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      purge_deleted_resumes: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      restore_resume_revision: {
+        Args: { revision_id: string }
+        Returns: {
+          content: Json
+          created_at: string
+          deleted_at: string | null
+          folder_id: string | null
+          id: string
+          is_public: boolean | null
+          parent_id: string | null
+          parent_synced_content: Json | null
+          tags: string[]
+          template_id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+      }
     }
     Enums: {
       [_ in never]: never
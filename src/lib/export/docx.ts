@@ -0,0 +1,185 @@
+import type { Paragraph as DocxParagraph } from "docx";
+import { downloadBlob, toFileName } from "@/lib/download";
+import {
+  formatLink,
+  parseDescription,
+  type ResumeContent,
+  type TemplateData,
+} from "@/lib/resume";
+import {
+  getSectionBody,
+  getSectionTitle,
+  getVisibleSections,
+  resolveDesign,
+  type LayoutDefinition,
+  type SectionEntry,
+} from "@/components/resume/layouts";
+
+/** Word-safe fonts standing in for the template's web fonts. */
+const DOCX_FONTS: Record<LayoutDefinition["font"], string> = {
+  serif: "Georgia",
+  sans: "Calibri",
+  display: "Georgia",
+};
+
+const BULLETS = "resume-bullets";
+
+const toDocxColor = (hex: string) => hex.replace("#", "").toUpperCase();
+
+/**
+ * Builds a .docx that uses real Word styles (Title, Heading 1/2, bulleted
+ * lists) so the file stays editable in Word and readable by ATS parsers.
+ */
+export const renderResumeDocx = async (content: ResumeContent, template: TemplateData, title: string) => {
+  const {
+    AlignmentType,
+    Document,
+    HeadingLevel,
+    LevelFormat,
+    Packer,
+    Paragraph,
+    Tab,
+    TabStopPosition,
+    TabStopType,
+    TextRun,
+  } = await import("docx");
+
+  const design = resolveDesign(template, content.design);
+  const { layout } = design;
+  const primary = toDocxColor(design.colors.primary);
+  const secondary = toDocxColor(design.colors.secondary);
+  // Word sizes are in half-points.
+  const size = (halfPoints: number) => Math.round(halfPoints * design.fontScale);
+  const margin = Math.round(1080 * design.margin);
+  const { personalInfo } = content;
+
+  const description = (text: string) =>
+    parseDescription(text).map((line) =>
+      line.kind === "bullet"
+        ? new Paragraph({ text: line.text, numbering: { reference: BULLETS, level: 0 } })
+        : new Paragraph({ text: line.text })
+    );
+
+  const entry = ({ title: heading, subtitle, dates, description: details, links, tags }: SectionEntry) => [
+    new Paragraph({
+      heading: HeadingLevel.HEADING_2,
+      tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }],
+      children: [
+        new TextRun(heading),
+        ...(dates ? [new TextRun({ children: [new Tab(), dates], bold: false, size: size(18), color: "6B7280" })] : []),
+      ],
+    }),
+    ...(subtitle ? [new Paragraph({ children: [new TextRun({ text: subtitle, italics: true, color: secondary })] })] : []),
+    ...(links.length > 0
+      ? [new Paragraph({ children: [new TextRun({ text: links.map(formatLink).join("  ·  "), size: size(18), color: "6B7280" })] })]
+      : []),
+    ...description(details),
+    ...(tags.length > 0 ? [new Paragraph({ children: [new TextRun({ text: tags.join(", "), size: size(18), color: primary })] })] : []),
+  ];
+
+  const children: DocxParagraph[] = [
+    new Paragraph({
+      heading: HeadingLevel.TITLE,
+      alignment: layout.header === "centered" ? AlignmentType.CENTER : AlignmentType.LEFT,
+      text: personalInfo.fullName || title,
+    }),
+    new Paragraph({
+      alignment: layout.header === "centered" ? AlignmentType.CENTER : AlignmentType.LEFT,
+      children: [new TextRun({
+        text: [personalInfo.email, personalInfo.phone, personalInfo.location].filter(Boolean).join("  ·  "),
+        color: "4B5563",
+      })],
+    }),
+  ];
+
+  for (const section of getVisibleSections(content, layout)) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, text: getSectionTitle(content, section) }));
+
+    const body = getSectionBody(content, section);
+    switch (body.kind) {
+      case "text":
+        children.push(...description(body.text));
+        break;
+      case "list":
+        children.push(...body.items.map((item) => new Paragraph({ text: item, numbering: { reference: BULLETS, level: 0 } })));
+        break;
+      case "entries":
+        body.entries.forEach((item) => children.push(...entry(item)));
+        break;
+    }
+  }
+
+  const doc = new Document({
+    title,
+    creator: personalInfo.fullName || "Resume Builder",
+    styles: {
+      default: {
+        document: {
+          run: { font: DOCX_FONTS[design.fonts.body], size: size(21), color: "1F2937" },
+          paragraph: { spacing: { after: 60, line: Math.round(240 * design.lineSpacing) } },
+        },
+      },
+      paragraphStyles: [
+        {
+          id: "Title",
+          name: "Title",
+          basedOn: "Normal",
+          next: "Normal",
+          quickFormat: true,
+          run: { font: DOCX_FONTS[design.fonts.heading], size: size(48), bold: true, color: "111827" },
+          paragraph: { spacing: { after: 80 } },
+        },
+        {
+          id: "Heading1",
+          name: "Heading 1",
+          basedOn: "Normal",
+          next: "Normal",
+          quickFormat: true,
+          run: { font: DOCX_FONTS[design.fonts.heading], size: size(24), bold: true, allCaps: true, color: primary },
+          paragraph: {
+            spacing: { before: 240, after: 120 },
+            border: { bottom: { style: "single", size: 6, color: primary, space: 2 } },
+          },
+        },
+        {
+          id: "Heading2",
+          name: "Heading 2",
+          basedOn: "Normal",
+          next: "Normal",
+          quickFormat: true,
+          run: { size: size(22), bold: true, color: "111827" },
+          paragraph: { spacing: { before: 160, after: 20 }, keepNext: true },
+        },
+      ],
+    },
+    numbering: {
+      config: [
+        {
+          reference: BULLETS,
+          levels: [
+            {
+              level: 0,
+              format: LevelFormat.BULLET,
+              text: "•",
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 360, hanging: 240 } } },
+            },
+          ],
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: { page: { margin: { top: margin, bottom: margin, left: margin, right: margin } } },
+        children,
+      },
+    ],
+  });
+
+  return Packer.toBlob(doc);
+};
+
+export const exportResumeDocx = async (content: ResumeContent, template: TemplateData, title: string) => {
+  const blob = await renderResumeDocx(content, template, title);
+  downloadBlob(blob, toFileName(title, "docx"));
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { fromJsonResume, type JsonResume } from "@/lib/import/jsonResume";
+import { toJsonResume } from "./jsonResume";
+
+const resume: JsonResume = {
+  basics: {
+    name: "Jane Doe",
+    email: "jane@example.com",
+    phone: "+1 555 0100",
+    summary: "Backend engineer.",
+    location: { city: "Berlin", countryCode: "DE" },
+    profiles: [{ network: "GitHub", username: "jane" }],
+  },
+  work: [{
+    name: "Northwind",
+    position: "Engineer",
+    startDate: "2020-01",
+    endDate: "2022-06",
+    summary: "Payments team.",
+    highlights: ["Cut latency by half"],
+  }],
+  education: [{ institution: "State University", studyType: "BSc", area: "Computer Science", startDate: "2014-09", endDate: "2018-06" }],
+  projects: [{ name: "Open Recipes", description: "Recipe site.", keywords: ["React"], roles: ["Maintainer"], url: "https://example.com" }],
+  certificates: [{ name: "Cloud Architect", issuer: "Example Cloud", date: "2022-04" }],
+  awards: [{ title: "Hackathon winner", awarder: "Example Corp", date: "2019-05", summary: "First place." }],
+  skills: [{ name: "TypeScript" }, { name: "SQL" }],
+  volunteer: [{ organization: "Food Bank", position: "Driver", startDate: "2019-04", highlights: ["Weekly routes"] }],
+  publications: [{ name: "On Resumes", publisher: "Example Press", releaseDate: "2021-03" }],
+  languages: [{ language: "German", fluency: "Fluent" }, { language: "French" }],
+  interests: [{ name: "Climbing", keywords: ["bouldering", "alpine"] }],
+  references: [{ name: "Sam Smith", reference: "Great colleague." }],
+};
+
+describe("JSON Resume round trip", () => {
+  it("exports an imported resume as it was", () => {
+    const exported = toJsonResume(fromJsonResume(resume));
+    const { $schema, meta, ...sections } = exported;
+
+    expect($schema).toContain("jsonresume");
+    expect(meta).toBeUndefined();
+    expect(sections).toEqual(resume);
+  });
+
+  it("imports an exported resume unchanged", () => {
+    const content = fromJsonResume(resume);
+    const reimported = fromJsonResume(toJsonResume(content));
+    const withoutIds = (value: unknown) => JSON.parse(JSON.stringify(value, (key, item) => (key === "id" ? undefined : item)));
+
+    expect(withoutIds(reimported)).toEqual(withoutIds(content));
+  });
+
+  it("exports each custom section once", () => {
+    const exported = toJsonResume(fromJsonResume(resume));
+
+    expect(exported.volunteer).toHaveLength(1);
+    expect(exported.languages).toEqual([{ language: "German", fluency: "Fluent" }, { language: "French" }]);
+  });
+});
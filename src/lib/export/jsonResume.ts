@@ -0,0 +1,157 @@
+import { downloadBlob, toFileName } from "@/lib/download";
+import { formatLocation, type JsonResume, type JsonResumeLocation } from "@/lib/import/jsonResume";
+import {
+  getCustomSectionPreset,
+  parseDescription,
+  type CustomSection,
+  type ResumeContent,
+} from "@/lib/resume";
+
+const SCHEMA_URL = "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/** Splits a description back into a JSON Resume summary and highlights. */
+const splitDescription = (description: string) => {
+  const lines = parseDescription(description);
+  const summary = lines.filter((line) => line.kind === "text").map((line) => line.text).join("\n");
+  const highlights = lines.filter((line) => line.kind === "bullet").map((line) => line.text);
+  return { summary: summary || undefined, highlights: highlights.length > 0 ? highlights : undefined };
+};
+
+/** Reverses the importer's "Bachelor in Computer Science" degree formatting. */
+const splitDegree = (degree: string) => {
+  const [studyType, ...area] = degree.split(" in ");
+  return area.length > 0
+    ? { studyType, area: area.join(" in ") }
+    : { studyType: degree || undefined };
+};
+
+/** Reverses the importer's "English (Native)" language formatting. */
+const splitLanguage = (item: string) => {
+  const match = /^(.*?)\s*\(([^)]+)\)$/.exec(item);
+  return match ? { language: match[1], fluency: match[2] } : { language: item };
+};
+
+/**
+ * Writes custom sections back to their JSON Resume equivalents. Sections the
+ * schema has no place for are kept under `meta.customSections`.
+ */
+const fromCustomSections = (sections: CustomSection[]) => {
+  const byKey = (key: string) =>
+    sections.filter((section) => getCustomSectionPreset(section.preset)?.jsonResumeKey === key);
+  const entries = (key: string) => byKey(key).flatMap((section) => section.entries);
+  const items = (key: string) => byKey(key).flatMap((section) => section.items.filter((item) => item.trim()));
+
+  return {
+    volunteer: entries("volunteer").map((entry) => ({
+      organization: entry.subtitle || undefined,
+      position: entry.title || undefined,
+      url: entry.url || undefined,
+      startDate: entry.startDate || undefined,
+      endDate: entry.endDate || undefined,
+      ...splitDescription(entry.description),
+    })),
+    publications: entries("publications").map((entry) => ({
+      name: entry.title,
+      publisher: entry.subtitle || undefined,
+      releaseDate: entry.startDate || undefined,
+      url: entry.url || undefined,
+      summary: entry.description || undefined,
+    })),
+    languages: items("languages").map(splitLanguage),
+    interests: items("interests").map((item) => {
+      const [name, keywords] = item.split(/:\s*/, 2);
+      return { name, keywords: keywords ? keywords.split(/,\s*/) : undefined };
+    }),
+    unmapped: sections.filter((section) => !getCustomSectionPreset(section.preset)?.jsonResumeKey),
+  };
+};
+
+export const toJsonResume = (content: ResumeContent): JsonResume => {
+  const { basics: extraBasics, meta: extraMeta, ...extraSections } = content.extraSections ?? {};
+  const { unmapped, ...customSections } = fromCustomSections(content.customSections);
+  const previousBasics = isObject(extraBasics) ? extraBasics : {};
+  const previousLocation = isObject(previousBasics.location)
+    ? (previousBasics.location as JsonResumeLocation)
+    : undefined;
+  const { personalInfo } = content;
+
+  // Keep the structured location from an import unless the user edited it.
+  const location = formatLocation(previousLocation) === personalInfo.location
+    ? previousLocation
+    : personalInfo.location
+      ? { city: personalInfo.location }
+      : undefined;
+
+  return {
+    $schema: SCHEMA_URL,
+    basics: {
+      ...previousBasics,
+      name: personalInfo.fullName,
+      email: personalInfo.email || undefined,
+      phone: personalInfo.phone || undefined,
+      summary: personalInfo.summary || undefined,
+      location,
+    },
+    work: content.experience.map((exp) => ({
+      name: exp.company,
+      position: exp.position,
+      startDate: exp.startDate || undefined,
+      endDate: exp.endDate || undefined,
+      ...splitDescription(exp.description),
+    })),
+    education: content.education.map((edu) => {
+      const { summary, highlights } = splitDescription(edu.description);
+      const score = summary && /^Score:\s*(.+)$/m.exec(summary);
+      return {
+        institution: edu.school,
+        ...splitDegree(edu.degree),
+        startDate: edu.startDate || undefined,
+        endDate: edu.endDate || undefined,
+        score: score ? score[1] : undefined,
+        courses: highlights,
+      };
+    }),
+    projects: content.projects.map((project) => {
+      const { summary, highlights } = splitDescription(project.description);
+      return {
+        name: project.name,
+        description: summary,
+        highlights,
+        keywords: project.technologies.length > 0 ? project.technologies : undefined,
+        startDate: project.startDate || undefined,
+        endDate: project.endDate || undefined,
+        url: project.url || undefined,
+        roles: project.role ? [project.role] : undefined,
+        repository: project.repository || undefined,
+      };
+    }),
+    certificates: content.certifications.map((cert) => ({
+      name: cert.name,
+      date: cert.issueDate || undefined,
+      issuer: cert.issuer || undefined,
+      url: cert.url || undefined,
+      credentialId: cert.credentialId || undefined,
+      expiryDate: cert.expiryDate || undefined,
+    })),
+    awards: content.awards.map((award) => ({
+      title: award.title,
+      date: award.date || undefined,
+      awarder: award.awarder || undefined,
+      summary: award.description || undefined,
+    })),
+    skills: content.skills.filter((skill) => skill.trim()).map((name) => ({ name })),
+    ...extraSections,
+    ...Object.fromEntries(Object.entries(customSections).filter(([, items]) => items.length > 0)),
+    meta: unmapped.length > 0 || isObject(extraMeta)
+      ? { ...(isObject(extraMeta) ? extraMeta : {}), customSections: unmapped.length > 0 ? unmapped : undefined }
+      : undefined,
+  };
+};
+
+export const exportJsonResume = (content: ResumeContent, title: string) => {
+  const json = JSON.stringify(toJsonResume(content), null, 2);
+  downloadBlob(new Blob([json], { type: "application/json" }), toFileName(title, "json"));
+};
@@ -0,0 +1,22 @@
+import { downloadBlob, toFileName } from "@/lib/download";
+import type { ResumeContent, TemplateData } from "@/lib/resume";
+
+/**
+ * Renders the resume to a PDF entirely in the browser. react-pdf and the font
+ * files are loaded on demand so they stay out of the main bundle.
+ */
+export const renderResumePdf = async (content: ResumeContent, template: TemplateData, title: string) => {
+  const [{ pdf }, { registerPdfFonts }, { default: ResumePdfDocument }] = await Promise.all([
+    import("@react-pdf/renderer"),
+    import("@/components/resume/pdfFonts"),
+    import("@/components/resume/ResumePdfDocument"),
+  ]);
+
+  registerPdfFonts();
+  return pdf(<ResumePdfDocument content={content} template={template} title={title} />).toBlob();
+};
+
+export const exportResumePdf = async (content: ResumeContent, template: TemplateData, title: string) => {
+  const blob = await renderResumePdf(content, template, title);
+  downloadBlob(blob, toFileName(title, "pdf"));
+};
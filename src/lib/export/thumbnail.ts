@@ -0,0 +1,33 @@
+import { loadPdfjs } from "@/lib/pdfjs";
+import type { ResumeContent, TemplateData } from "@/lib/resume";
+import { renderResumePdf } from "./pdf";
+
+/**
+ * Renders the first page of the exported PDF to a JPEG `width` pixels wide,
+ * so thumbnails look exactly like the document users download.
+ */
+export const renderResumeThumbnail = async (
+  content: ResumeContent,
+  template: TemplateData,
+  title: string,
+  width = 480
+): Promise<Blob> => {
+  const [pdfBlob, pdfjs] = await Promise.all([renderResumePdf(content, template, title), loadPdfjs()]);
+  const pdf = await pdfjs.getDocument({ data: await pdfBlob.arrayBuffer() }).promise;
+
+  try {
+    const page = await pdf.getPage(1);
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    await page.render({ canvas, viewport }).promise;
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the thumbnail"))), "image/jpeg", 0.85)
+    );
+  } finally {
+    await pdf.destroy();
+  }
+};
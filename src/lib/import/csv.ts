@@ -0,0 +1,65 @@
+/**
+ * Parses RFC 4180 CSV text (quoted fields, escaped quotes, embedded newlines)
+ * into rows of raw cells.
+ */
+export const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+};
+
+/**
+ * Parses CSV into objects keyed by column name. Rows before the first one
+ * containing `requiredColumn` (e.g. export notes) are skipped.
+ */
+export const parseCsv = (text: string, requiredColumn?: string) => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  const headerIndex = requiredColumn
+    ? rows.findIndex((cells) => cells.some((cell) => cell.trim() === requiredColumn))
+    : 0;
+  if (headerIndex < 0 || !rows[headerIndex]) return [];
+
+  const header = rows[headerIndex].map((cell) => cell.trim());
+  return rows.slice(headerIndex + 1).map((cells) =>
+    Object.fromEntries(header.map((column, index) => [column, (cells[index] ?? "").trim()]))
+  );
+};
@@ -0,0 +1,85 @@
+import { loadPdfjs } from "@/lib/pdfjs";
+
+const PDF_TYPES = ["application/pdf"];
+const DOCX_TYPES = ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"];
+
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Rebuilds reading-order lines from a PDF page's text items, which pdf.js
+ * returns as loosely ordered fragments with page coordinates.
+ */
+const groupIntoLines = (items: PositionedText[]) => {
+  const rows: PositionedText[][] = [];
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+
+  for (const item of sorted) {
+    const row = rows.find((candidate) => Math.abs(candidate[0].y - item.y) < 3);
+    if (row) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map((row) =>
+    row
+      .sort((a, b) => a.x - b.x)
+      .map((item) => item.text)
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+};
+
+const extractPdfLines = async (file: File) => {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const lines: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const { items } = await page.getTextContent();
+    const positioned = items.flatMap((item) =>
+      "str" in item && item.str.trim()
+        ? [{ text: item.str, x: item.transform[4], y: item.transform[5] }]
+        : []
+    );
+    lines.push(...groupIntoLines(positioned));
+  }
+
+  await pdf.destroy();
+  return lines;
+};
+
+const extractDocxLines = async (file: File) => {
+  const { default: mammoth } = await import("mammoth");
+  const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return value.split("\n");
+};
+
+export const isPdfFile = (file: File) => PDF_TYPES.includes(file.type) || /\.pdf$/i.test(file.name);
+export const isDocxFile = (file: File) => DOCX_TYPES.includes(file.type) || /\.docx$/i.test(file.name);
+
+/** Extracts the plain-text lines of a PDF or DOCX file without uploading it. */
+export const extractDocumentLines = async (file: File) => {
+  const lines = isPdfFile(file)
+    ? await extractPdfLines(file)
+    : isDocxFile(file)
+      ? await extractDocxLines(file)
+      : null;
+
+  if (!lines) {
+    throw new Error("Only PDF and Word (.docx) files can be imported.");
+  }
+
+  const text = lines.map((line) => line.trim()).filter(Boolean);
+  if (text.length === 0) {
+    throw new Error("No text was found in the file. Scanned documents are not supported.");
+  }
+  return text;
+};
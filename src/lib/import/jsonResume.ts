@@ -0,0 +1,351 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  createCustomEntry,
+  createCustomSection,
+  createEmptyResumeContent,
+  customSectionSchema,
+  type CustomSection,
+  type ResumeContent,
+} from "@/lib/resume";
+
+const text = z.string().optional();
+
+const locationSchema = z
+  .object({
+    address: text,
+    postalCode: text,
+    city: text,
+    countryCode: text,
+    region: text,
+  })
+  .passthrough();
+
+/**
+ * The parts of the JSON Resume schema (https://jsonresume.org/schema) the
+ * builder maps onto `ResumeContent`. Everything else passes through untouched.
+ */
+export const jsonResumeSchema = z
+  .object({
+    basics: z
+      .object({
+        name: text,
+        email: text,
+        phone: text,
+        summary: text,
+        location: locationSchema.optional(),
+      })
+      .passthrough()
+      .optional(),
+    work: z
+      .array(
+        z
+          .object({
+            name: text,
+            // Pre-1.0 documents used `company` instead of `name`.
+            company: text,
+            position: text,
+            startDate: text,
+            endDate: text,
+            summary: text,
+            highlights: z.array(z.string()).optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    education: z
+      .array(
+        z
+          .object({
+            institution: text,
+            area: text,
+            studyType: text,
+            startDate: text,
+            endDate: text,
+            score: text,
+            courses: z.array(z.string()).optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    projects: z
+      .array(
+        z
+          .object({
+            name: text,
+            description: text,
+            highlights: z.array(z.string()).optional(),
+            keywords: z.array(z.string()).optional(),
+            startDate: text,
+            endDate: text,
+            url: text,
+            roles: z.array(z.string()).optional(),
+            // Not part of the schema; written by our own export.
+            repository: text,
+          })
+          .passthrough()
+      )
+      .optional(),
+    certificates: z
+      .array(
+        z
+          .object({
+            name: text,
+            date: text,
+            issuer: text,
+            url: text,
+            // Not part of the schema; written by our own export.
+            credentialId: text,
+            expiryDate: text,
+          })
+          .passthrough()
+      )
+      .optional(),
+    awards: z
+      .array(
+        z
+          .object({
+            title: text,
+            date: text,
+            awarder: text,
+            summary: text,
+          })
+          .passthrough()
+      )
+      .optional(),
+    skills: z
+      .array(
+        z
+          .object({
+            name: text,
+            keywords: z.array(z.string()).optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    volunteer: z
+      .array(
+        z
+          .object({
+            organization: text,
+            position: text,
+            url: text,
+            startDate: text,
+            endDate: text,
+            summary: text,
+            highlights: z.array(z.string()).optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    publications: z
+      .array(
+        z
+          .object({
+            name: text,
+            publisher: text,
+            releaseDate: text,
+            url: text,
+            summary: text,
+          })
+          .passthrough()
+      )
+      .optional(),
+    languages: z
+      .array(z.object({ language: text, fluency: text }).passthrough())
+      .optional(),
+    interests: z
+      .array(z.object({ name: text, keywords: z.array(z.string()).optional() }).passthrough())
+      .optional(),
+    meta: z
+      .object({
+        // Builder sections with no JSON Resume equivalent, written by our own export.
+        customSections: z.array(customSectionSchema).optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+export type JsonResume = z.infer<typeof jsonResumeSchema>;
+export type JsonResumeLocation = z.infer<typeof locationSchema>;
+
+// `$schema` is written fresh on export.
+const MAPPED_SECTIONS = [
+  "$schema",
+  "basics",
+  "work",
+  "education",
+  "projects",
+  "certificates",
+  "awards",
+  "skills",
+  "volunteer",
+  "publications",
+  "languages",
+  "interests",
+  "meta",
+];
+const MAPPED_BASICS = ["name", "email", "phone", "summary"];
+
+/** Normalizes JSON Resume ISO dates ("2014", "2014-06", "2014-06-29") to `YYYY-MM`. */
+export const toMonthValue = (value: string | undefined) => {
+  if (!value) return "";
+  const month = /^(\d{4})-(\d{2})/.exec(value);
+  if (month) return `${month[1]}-${month[2]}`;
+  const year = /^(\d{4})$/.exec(value.trim());
+  return year ? `${year[1]}-01` : "";
+};
+
+export const formatLocation = (location: JsonResumeLocation | undefined) =>
+  location ? [location.city, location.region, location.countryCode].filter(Boolean).join(", ") : "";
+
+const withBullets = (lines: Array<string | undefined>, bullets: string[] = []) =>
+  [...lines.filter(Boolean), ...bullets.map((bullet) => `- ${bullet}`)].join("\n");
+
+const omit = (source: Record<string, unknown>, keys: string[]) =>
+  Object.fromEntries(Object.entries(source).filter(([key]) => !keys.includes(key))) as Record<string, Json>;
+
+/** Maps the JSON Resume sections the builder keeps as custom sections. */
+const toCustomSections = (resume: JsonResume): CustomSection[] => {
+  const sections: CustomSection[] = [];
+
+  if (resume.volunteer?.length) {
+    sections.push({
+      ...createCustomSection("Volunteering", "entries", "volunteering"),
+      entries: resume.volunteer.map((volunteer) => ({
+        ...createCustomEntry(),
+        title: volunteer.position ?? "",
+        subtitle: volunteer.organization ?? "",
+        startDate: toMonthValue(volunteer.startDate),
+        endDate: toMonthValue(volunteer.endDate),
+        url: volunteer.url ?? "",
+        description: withBullets([volunteer.summary], volunteer.highlights),
+      })),
+    });
+  }
+
+  if (resume.publications?.length) {
+    sections.push({
+      ...createCustomSection("Publications", "entries", "publications"),
+      entries: resume.publications.map((publication) => ({
+        ...createCustomEntry(),
+        title: publication.name ?? "",
+        subtitle: publication.publisher ?? "",
+        startDate: toMonthValue(publication.releaseDate),
+        url: publication.url ?? "",
+        description: publication.summary ?? "",
+      })),
+    });
+  }
+
+  if (resume.languages?.length) {
+    sections.push({
+      ...createCustomSection("Languages", "list", "languages"),
+      items: resume.languages.map(({ language = "", fluency }) => (fluency ? `${language} (${fluency})` : language)),
+    });
+  }
+
+  if (resume.interests?.length) {
+    sections.push({
+      ...createCustomSection("Interests", "list", "interests"),
+      items: resume.interests.map(({ name = "", keywords = [] }) =>
+        keywords.length > 0 ? `${name}: ${keywords.join(", ")}` : name
+      ),
+    });
+  }
+
+  return [...sections, ...((resume.meta?.customSections ?? []) as CustomSection[])];
+};
+
+export const fromJsonResume = (resume: JsonResume): ResumeContent => {
+  const basics = resume.basics ?? {};
+  const extraSections = omit(resume, MAPPED_SECTIONS);
+  const extraBasics = omit(basics, MAPPED_BASICS);
+  if (Object.keys(extraBasics).length > 0) {
+    extraSections.basics = extraBasics;
+  }
+  const extraMeta = omit(resume.meta ?? {}, ["customSections"]);
+  if (Object.keys(extraMeta).length > 0) {
+    extraSections.meta = extraMeta;
+  }
+
+  const skills = (resume.skills ?? []).flatMap((skill) => [skill.name ?? "", ...(skill.keywords ?? [])]);
+
+  return {
+    ...createEmptyResumeContent(),
+    personalInfo: {
+      fullName: basics.name ?? "",
+      email: basics.email ?? "",
+      phone: basics.phone ?? "",
+      location: formatLocation(basics.location),
+      summary: basics.summary ?? "",
+    },
+    experience: (resume.work ?? []).map((work) => ({
+      id: crypto.randomUUID(),
+      company: work.name ?? work.company ?? "",
+      position: work.position ?? "",
+      startDate: toMonthValue(work.startDate),
+      endDate: toMonthValue(work.endDate),
+      description: withBullets([work.summary], work.highlights),
+    })),
+    education: (resume.education ?? []).map((education) => ({
+      id: crypto.randomUUID(),
+      school: education.institution ?? "",
+      degree: [education.studyType, education.area].filter(Boolean).join(" in "),
+      startDate: toMonthValue(education.startDate),
+      endDate: toMonthValue(education.endDate),
+      description: withBullets([education.score && `Score: ${education.score}`], education.courses),
+    })),
+    projects: (resume.projects ?? []).map((project) => ({
+      id: crypto.randomUUID(),
+      name: project.name ?? "",
+      role: (project.roles ?? []).join(", "),
+      url: project.url ?? "",
+      repository: project.repository ?? "",
+      technologies: project.keywords ?? [],
+      startDate: toMonthValue(project.startDate),
+      endDate: toMonthValue(project.endDate),
+      description: withBullets([project.description], project.highlights),
+    })),
+    certifications: (resume.certificates ?? []).map((certificate) => ({
+      id: crypto.randomUUID(),
+      name: certificate.name ?? "",
+      issuer: certificate.issuer ?? "",
+      credentialId: certificate.credentialId ?? "",
+      issueDate: toMonthValue(certificate.date),
+      expiryDate: toMonthValue(certificate.expiryDate),
+      url: certificate.url ?? "",
+    })),
+    awards: (resume.awards ?? []).map((award) => ({
+      id: crypto.randomUUID(),
+      title: award.title ?? "",
+      awarder: award.awarder ?? "",
+      date: toMonthValue(award.date),
+      description: award.summary ?? "",
+    })),
+    customSections: toCustomSections(resume),
+    skills: [...new Set(skills.map((skill) => skill.trim()).filter(Boolean))],
+    extraSections: Object.keys(extraSections).length > 0 ? extraSections : undefined,
+  };
+};
+
+/** Reads an uploaded JSON Resume file, throwing a user-facing error if it is not one. */
+export const readJsonResumeFile = async (file: File) => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const result = jsonResumeSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error("The file does not match the JSON Resume schema.");
+  }
+
+  return {
+    title: file.name.replace(/\.json$/i, "") || "Imported Resume",
+    content: fromJsonResume(result.data),
+  };
+};
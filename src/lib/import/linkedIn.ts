@@ -0,0 +1,163 @@
+import { createCustomSection, createEmptyResumeContent, type ResumeContent } from "@/lib/resume";
+import { parseCsv } from "./csv";
+
+type CsvRow = Record<string, string>;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Converts LinkedIn export dates ("Jan 2020", "2020", "01/2020",
+ * "Sep 1, 2012") into the `YYYY-MM` value of a month input.
+ */
+export const toMonthFromLinkedIn = (value: string | undefined) => {
+  const text = (value ?? "").trim().toLowerCase();
+  if (!text) return "";
+
+  const named = /^([a-z]{3})[a-z]*\.?\s+(?:\d{1,2},\s*)?(\d{4})$/.exec(text);
+  if (named && MONTHS.includes(named[1])) {
+    return `${named[2]}-${String(MONTHS.indexOf(named[1]) + 1).padStart(2, "0")}`;
+  }
+
+  const numeric = /^(\d{1,2})\/(?:\d{1,2}\/)?(\d{4})$/.exec(text);
+  if (numeric) return `${numeric[2]}-${numeric[1].padStart(2, "0")}`;
+
+  const iso = /^(\d{4})-(\d{2})/.exec(text);
+  if (iso) return `${iso[1]}-${iso[2]}`;
+
+  const year = /^(\d{4})$/.exec(text);
+  return year ? `${year[1]}-01` : "";
+};
+
+/** Skill names de-duplicated case-insensitively, keeping the first spelling. */
+const uniqueSkills = (names: string[]) => {
+  const seen = new Set<string>();
+  return names.filter((name) => {
+    const key = name.toLowerCase();
+    if (!name || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** LinkedIn bullets use "•"; the builder's descriptions use "- ". */
+const normalizeDescription = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim().replace(/^[•▪●]\s*/, "- "))
+    .filter(Boolean)
+    .join("\n");
+
+/**
+ * Reads the ZIP from LinkedIn's "Download your data" page and maps its CSVs
+ * onto a new resume. Missing files simply leave their section empty.
+ */
+export const readLinkedInArchive = async (file: File) => {
+  const { default: JSZip } = await import("jszip");
+
+  let zip: InstanceType<typeof JSZip>;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error("The file is not a valid ZIP archive.");
+  }
+
+  // Archives may nest the CSVs in a folder, so match on the base name.
+  const readCsv = async (name: string, requiredColumn: string): Promise<CsvRow[]> => {
+    const entry = Object.values(zip.files).find((candidate) =>
+      !candidate.dir && candidate.name.split("/").pop()?.toLowerCase() === name.toLowerCase()
+    );
+    return entry ? parseCsv(await entry.async("string"), requiredColumn) : [];
+  };
+
+  const [profiles, positions, schools, projects, certifications, honors, languages, skills, emails, phones] = await Promise.all([
+    readCsv("Profile.csv", "First Name"),
+    readCsv("Positions.csv", "Company Name"),
+    readCsv("Education.csv", "School Name"),
+    readCsv("Projects.csv", "Title"),
+    readCsv("Certifications.csv", "Name"),
+    readCsv("Honors.csv", "Title"),
+    readCsv("Languages.csv", "Name"),
+    readCsv("Skills.csv", "Name"),
+    readCsv("Email Addresses.csv", "Email Address"),
+    readCsv("PhoneNumbers.csv", "Number"),
+  ]);
+
+  const sections = [profiles, positions, schools, projects, certifications, honors, languages, skills];
+  if (sections.every((rows) => rows.length === 0)) {
+    throw new Error("No LinkedIn profile data was found in this archive.");
+  }
+
+  const profile = profiles[0] ?? {};
+  const email = emails.find((row) => row.Primary?.toLowerCase() === "yes") ?? emails[0];
+  const fullName = [profile["First Name"], profile["Last Name"]].filter(Boolean).join(" ");
+
+  const content: ResumeContent = {
+    ...createEmptyResumeContent(),
+    personalInfo: {
+      fullName,
+      email: email?.["Email Address"] ?? "",
+      phone: phones[0]?.Number ?? "",
+      location: profile["Geo Location"] ?? "",
+      summary: normalizeDescription(profile.Summary || profile.Headline || ""),
+    },
+    experience: positions.map((position) => ({
+      id: crypto.randomUUID(),
+      company: position["Company Name"] ?? "",
+      position: position.Title ?? "",
+      startDate: toMonthFromLinkedIn(position["Started On"]),
+      endDate: toMonthFromLinkedIn(position["Finished On"]),
+      description: normalizeDescription(position.Description ?? ""),
+    })),
+    education: schools.map((school) => ({
+      id: crypto.randomUUID(),
+      school: school["School Name"] ?? "",
+      degree: school["Degree Name"] ?? "",
+      startDate: toMonthFromLinkedIn(school["Start Date"]),
+      endDate: toMonthFromLinkedIn(school["End Date"]),
+      description: normalizeDescription(
+        [school.Notes, school.Activities && `Activities: ${school.Activities}`].filter(Boolean).join("\n")
+      ),
+    })),
+    projects: projects.map((project) => ({
+      id: crypto.randomUUID(),
+      name: project.Title ?? "",
+      role: "",
+      url: project.Url ?? "",
+      repository: "",
+      technologies: [],
+      startDate: toMonthFromLinkedIn(project["Started On"]),
+      endDate: toMonthFromLinkedIn(project["Finished On"]),
+      description: normalizeDescription(project.Description ?? ""),
+    })),
+    certifications: certifications.map((certification) => ({
+      id: crypto.randomUUID(),
+      name: certification.Name ?? "",
+      issuer: certification.Authority ?? "",
+      credentialId: certification["License Number"] ?? "",
+      issueDate: toMonthFromLinkedIn(certification["Started On"]),
+      expiryDate: toMonthFromLinkedIn(certification["Finished On"]),
+      url: certification.Url ?? "",
+    })),
+    awards: honors.map((honor) => ({
+      id: crypto.randomUUID(),
+      title: honor.Title ?? "",
+      awarder: "",
+      date: toMonthFromLinkedIn(honor["Issued On"]),
+      description: normalizeDescription(honor.Description ?? ""),
+    })),
+    customSections: languages.length > 0
+      ? [{
+        ...createCustomSection("Languages", "list", "languages"),
+        items: languages.map((language) =>
+          language.Proficiency ? `${language.Name} (${language.Proficiency})` : language.Name
+        ),
+      }]
+      : [],
+    skills: uniqueSkills(skills.map((skill) => skill.Name?.trim() ?? "")),
+  };
+
+  return {
+    title: fullName ? `${fullName} (LinkedIn)` : "LinkedIn Resume",
+    content,
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseResumeText } from "./resumeText";
+
+describe("parseResumeText", () => {
+  it("reads an all-caps name as the name, not a section heading", () => {
+    const { content, report } = parseResumeText([
+      "JANE DOE",
+      "Portland, OR | jane.doe@example.com | +1 555 010 2030",
+      "EXPERIENCE",
+      "Software Engineer at Northwind",
+      "Mar 2020 - Present",
+      "- Built the billing platform",
+      "SKILLS",
+      "TypeScript, React",
+    ]);
+
+    expect(content.personalInfo.fullName).toBe("JANE DOE");
+    expect(content.personalInfo.location).toBe("Portland, OR");
+    expect(content.personalInfo.email).toBe("jane.doe@example.com");
+    expect(content.experience).toHaveLength(1);
+    expect(content.experience[0]).toMatchObject({ position: "Software Engineer", company: "Northwind", startDate: "2020-03" });
+    expect(content.skills).toEqual(["TypeScript", "React"]);
+    expect(report.ignoredSections).toEqual([]);
+  });
+
+  it("still sets aside unknown sections after the first known one", () => {
+    const { report } = parseResumeText([
+      "Jane Doe",
+      "EXPERIENCE",
+      "Software Engineer at Northwind",
+      "Mar 2020 - Present",
+      "VOLUNTEERING",
+      "Food bank driver",
+    ]);
+
+    expect(report.ignoredSections).toEqual([{ heading: "VOLUNTEERING", lines: ["Food bank driver"] }]);
+  });
+});
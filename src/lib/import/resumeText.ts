@@ -0,0 +1,392 @@
+import { createEmptyResumeContent, type EducationEntry, type ExperienceEntry, type ResumeContent } from "@/lib/resume";
+import { extractDocumentLines } from "./documentText";
+
+export type Confidence = "high" | "low";
+
+export interface DetectedField {
+  /** Report group, e.g. "Contact" or "Experience 2". */
+  group: string;
+  label: string;
+  value: string;
+  confidence: Confidence;
+}
+
+export interface ImportReport {
+  fields: DetectedField[];
+  /** Sections whose heading was not recognized; their text was not imported. */
+  ignoredSections: Array<{ heading: string; lines: string[] }>;
+}
+
+type SectionKind = "summary" | "experience" | "education" | "skills";
+
+const SECTION_PATTERNS: Array<[SectionKind, RegExp]> = [
+  ["summary", /^(professional |career )?(summary|profile|objective|about|about me|overview)$/i],
+  ["experience", /^((work|professional|relevant|employment) )?(experience|employment|history|work history|career history)$/i],
+  ["education", /^(education|academic background|academics|education and training|qualifications)$/i],
+  ["skills", /^((technical|core|key|professional) )?(skills|competencies|technologies|expertise|skills and tools|tools)$/i],
+];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH = "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+const DATE = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}[/.-]\\d{4}|\\d{4}[/.-]\\d{1,2}|\\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)`, "i");
+
+const BULLET = /^[•▪●◦‣*-]\s*/;
+const EMAIL = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+const PHONE = /\+?\(?\d[\d\s().-]{7,}\d/;
+const STATE_LOCATION = /^[A-Z][A-Za-z .'-]+,\s*[A-Z]{2}\b/;
+const PLACE_LOCATION = /^[A-Z][A-Za-z .'-]+,\s*[A-Z][A-Za-z .'-]+$/;
+
+const COMPANY_HINTS = /\b(inc|llc|ltd|corp|corporation|company|co|group|gmbh|technologies|labs|solutions|agency|bank|partners|studio)\b\.?/i;
+const POSITION_HINTS = /\b(engineer|developer|manager|designer|analyst|director|lead|intern|consultant|specialist|coordinator|officer|assistant|architect|scientist|head|vp|president|associate|administrator|representative|teacher|nurse|accountant)\b/i;
+const SCHOOL_HINTS = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+const DEGREE_HINTS = /\b(bachelor|master|b\.?sc?|m\.?sc?|b\.?a|m\.?a|ph\.?d|mba|associate|diploma|degree|b\.?eng|m\.?eng|certificate)\b\.?/i;
+
+const HEADER_SEPARATORS = [" at ", " | ", " — ", " – ", " - ", ", "];
+
+const isBullet = (line: string) => BULLET.test(line);
+const stripBullet = (line: string) => line.replace(BULLET, "");
+const wordCount = (line: string) => line.split(/\s+/).filter(Boolean).length;
+
+const normalizeHeading = (line: string) =>
+  line.replace(/[:|]+$/, "").replace(/&/g, "and").replace(/\s+/g, " ").trim();
+
+const classifyHeading = (line: string): SectionKind | "other" | null => {
+  const heading = normalizeHeading(line);
+  if (heading.length > 40) return null;
+
+  const match = SECTION_PATTERNS.find(([, pattern]) => pattern.test(heading));
+  if (match) return match[0];
+
+  // Short all-caps lines without digits are almost always headings.
+  const isCaps = heading === heading.toUpperCase() && /[A-Z]/.test(heading);
+  return isCaps && wordCount(heading) <= 4 && !/\d/.test(heading) && !EMAIL.test(heading) ? "other" : null;
+};
+
+/** Converts a resume date ("Mar 2020", "03/2020", "2020") to `YYYY-MM`. */
+const parseDate = (value: string): { month: string; confidence: Confidence } => {
+  const text = value.trim().toLowerCase();
+  if (/^(present|current|now|today)$/.test(text)) {
+    return { month: "", confidence: "high" };
+  }
+
+  const named = new RegExp(`^(${MONTH})\\s+(\\d{4})$`).exec(text);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3)) + 1;
+    return { month: `${named[2]}-${String(month).padStart(2, "0")}`, confidence: "high" };
+  }
+
+  const monthFirst = /^(\d{1,2})[/.-](\d{4})$/.exec(text);
+  if (monthFirst) {
+    return { month: `${monthFirst[2]}-${monthFirst[1].padStart(2, "0")}`, confidence: "high" };
+  }
+
+  const yearFirst = /^(\d{4})[/.-](\d{1,2})$/.exec(text);
+  if (yearFirst) {
+    return { month: `${yearFirst[1]}-${yearFirst[2].padStart(2, "0")}`, confidence: "high" };
+  }
+
+  // A bare year has no month, so January is a guess.
+  return /^\d{4}$/.test(text)
+    ? { month: `${text}-01`, confidence: "low" }
+    : { month: "", confidence: "low" };
+};
+
+interface RawEntry {
+  header: string[];
+  startDate: string;
+  endDate: string;
+  datesConfidence: Confidence;
+  body: string[];
+}
+
+const isHeaderCandidate = (line: string) =>
+  !isBullet(line) && wordCount(line) <= 8 && !/[.!?]$/.test(line);
+
+/**
+ * Splits a section into entries anchored on date ranges. Up to two short lines
+ * around each date range are treated as the entry's heading.
+ */
+const segmentEntries = (lines: string[]) => {
+  const entries: RawEntry[] = [];
+  const preamble: string[] = [];
+
+  for (const line of lines) {
+    const range = DATE_RANGE.exec(line);
+    const current = entries[entries.length - 1];
+
+    if (!range) {
+      if (!current) {
+        preamble.push(line);
+      } else if (current.header.length < 2 && current.body.length === 0 && isHeaderCandidate(line)) {
+        current.header.push(line);
+      } else {
+        current.body.push(line);
+      }
+      continue;
+    }
+
+    const rest = line.replace(range[0], "").replace(/^[\s,|–—-]+|[\s,|–—-]+$/g, "");
+    const header = rest ? [rest] : [];
+
+    // Claim trailing heading-like lines that ended up in the previous entry.
+    const source = current ? current.body : preamble;
+    while (header.length < 2 && source.length > 0 && isHeaderCandidate(source[source.length - 1])) {
+      header.unshift(source.pop()!);
+    }
+
+    const start = parseDate(range[1]);
+    const end = parseDate(range[2]);
+    entries.push({
+      header,
+      startDate: start.month,
+      endDate: end.month,
+      datesConfidence: start.confidence === "high" && end.confidence === "high" ? "high" : "low",
+      body: [],
+    });
+  }
+
+  return { entries, preamble };
+};
+
+const splitHeaderLine = (line: string) => {
+  for (const separator of HEADER_SEPARATORS) {
+    const index = line.toLowerCase().indexOf(separator);
+    if (index > 0) {
+      return { parts: [line.slice(0, index).trim(), line.slice(index + separator.length).trim()], separator };
+    }
+  }
+  return { parts: [line], separator: null };
+};
+
+/** Decides which of two heading parts is the "primary" one using keyword hints. */
+const assignPair = (parts: string[], primaryHint: RegExp, secondaryHint: RegExp) => {
+  const [a, b] = parts;
+  if (primaryHint.test(a) || secondaryHint.test(b)) return { primary: a, secondary: b, confidence: "high" as const };
+  if (primaryHint.test(b) || secondaryHint.test(a)) return { primary: b, secondary: a, confidence: "high" as const };
+  return { primary: a, secondary: b, confidence: "low" as const };
+};
+
+const headerParts = (header: string[]) => {
+  if (header.length >= 2) return { parts: header.slice(0, 2), separator: null };
+  if (header.length === 1) return splitHeaderLine(header[0]);
+  return { parts: [], separator: null };
+};
+
+const toExperience = (entry: RawEntry) => {
+  const { parts, separator } = headerParts(entry.header);
+  let position = parts[0] ?? "";
+  let company = parts[1] ?? "";
+  let confidence: Confidence = "low";
+
+  if (parts.length === 2) {
+    if (separator === " at ") {
+      confidence = "high";
+    } else {
+      const pair = assignPair(parts, POSITION_HINTS, COMPANY_HINTS);
+      position = pair.primary;
+      company = pair.secondary;
+      confidence = pair.confidence;
+    }
+  }
+
+  const experience: ExperienceEntry = {
+    id: crypto.randomUUID(),
+    company,
+    position,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    description: entry.body.map((line) => (isBullet(line) ? `- ${stripBullet(line)}` : line)).join("\n"),
+  };
+  return { experience, confidence };
+};
+
+const toEducation = (entry: RawEntry) => {
+  const { parts } = headerParts(entry.header);
+  let school = parts[0] ?? "";
+  let degree = parts[1] ?? "";
+  let confidence: Confidence = "low";
+
+  if (parts.length === 2) {
+    const pair = assignPair(parts, SCHOOL_HINTS, DEGREE_HINTS);
+    school = pair.primary;
+    degree = pair.secondary;
+    confidence = pair.confidence;
+  } else if (parts.length === 1 && DEGREE_HINTS.test(parts[0])) {
+    school = "";
+    degree = parts[0];
+  }
+
+  const education: EducationEntry = {
+    id: crypto.randomUUID(),
+    school,
+    degree,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    description: entry.body.map((line) => (isBullet(line) ? `- ${stripBullet(line)}` : line)).join("\n"),
+  };
+  return { education, confidence };
+};
+
+/** Education sections often omit date ranges; fall back to keyword matching. */
+const educationWithoutDates = (lines: string[]) => {
+  const school = lines.find((line) => SCHOOL_HINTS.test(line)) ?? "";
+  const degree = lines.find((line) => line !== school && DEGREE_HINTS.test(line)) ?? "";
+  const year = lines.map((line) => /\b(19|20)\d{2}\b/.exec(line)?.[0]).find(Boolean);
+  const rest = lines.filter((line) => line !== school && line !== degree);
+
+  return {
+    id: crypto.randomUUID(),
+    school,
+    degree,
+    startDate: "",
+    endDate: year ? `${year}-01` : "",
+    description: rest.map((line) => (isBullet(line) ? `- ${stripBullet(line)}` : line)).join("\n"),
+  };
+};
+
+const parseSkills = (lines: string[]) => {
+  const skills = lines.flatMap((line) => {
+    // "Languages: TypeScript, Go" keeps only the values.
+    const values = stripBullet(line).replace(/^[^:]{1,30}:\s*/, "");
+    return values.split(/[,;|•·▪●]/);
+  });
+  return [...new Set(skills.map((skill) => skill.trim()).filter((skill) => skill && wordCount(skill) <= 5))];
+};
+
+/**
+ * Heuristically turns the plain text of a resume into `ResumeContent`,
+ * reporting which fields were guessed so the user can review them.
+ */
+export const parseResumeText = (lines: string[]): { content: ResumeContent; report: ImportReport } => {
+  const fields: DetectedField[] = [];
+  const ignoredSections: ImportReport["ignoredSections"] = [];
+  const sections: Partial<Record<SectionKind, string[]>> = {};
+  const header: string[] = [];
+
+  let current: string[] = header;
+  for (const line of lines) {
+    const kind = classifyHeading(line);
+    if (kind === "other" && current === header) {
+      // Before the first known section, a short all-caps line is the name or contact details.
+      header.push(line);
+    } else if (kind === "other") {
+      current = [];
+      ignoredSections.push({ heading: normalizeHeading(line), lines: current });
+    } else if (kind) {
+      current = sections[kind] ?? (sections[kind] = []);
+    } else {
+      current.push(line);
+    }
+  }
+
+  // Contact details: search the header first, then the whole document.
+  const findIn = (pattern: RegExp, accept: (match: string) => boolean = () => true) => {
+    for (const line of [...header, ...lines]) {
+      const match = pattern.exec(line)?.[0].trim();
+      if (match && accept(match)) return match;
+    }
+    return "";
+  };
+  const email = findIn(EMAIL);
+  // Date ranges like "2019 - 03/2021" look a lot like phone numbers.
+  const phone = findIn(PHONE, (match) => match.replace(/\D/g, "").length >= 9 && !DATE_RANGE.test(match));
+
+  const headerSegments = header.flatMap((line) => line.split(/\s*[|•·]\s*/));
+  const stateLocation = headerSegments.find((segment) => STATE_LOCATION.test(segment));
+  const placeLocation = headerSegments.find((segment) =>
+    PLACE_LOCATION.test(segment) && !EMAIL.test(segment) && wordCount(segment) <= 5
+  );
+  const location = (stateLocation ?? placeLocation ?? "").trim();
+
+  const nameIndex = header.findIndex((line) =>
+    !EMAIL.test(line) && !PHONE.test(line) && wordCount(line) >= 2 && wordCount(line) <= 5 && /^[\p{L} .'-]+$/u.test(line)
+  );
+  const fullName = nameIndex >= 0 ? header[nameIndex] : "";
+
+  fields.push(
+    { group: "Contact", label: "Full name", value: fullName, confidence: nameIndex === 0 ? "high" : "low" },
+    { group: "Contact", label: "Email", value: email, confidence: email ? "high" : "low" },
+    { group: "Contact", label: "Phone", value: phone, confidence: phone ? "high" : "low" },
+    { group: "Contact", label: "Location", value: location, confidence: stateLocation ? "high" : "low" },
+  );
+
+  // Without a summary heading, a long line in the header is probably the pitch.
+  const summaryLines = sections.summary ?? header.filter((line) => wordCount(line) > 12);
+  const summary = summaryLines.join(" ");
+  if (summary) {
+    fields.push({ group: "Summary", label: "Summary", value: summary, confidence: sections.summary ? "high" : "low" });
+  }
+
+  const experience = segmentEntries(sections.experience ?? []).entries.map((entry, index) => {
+    const { experience, confidence } = toExperience(entry);
+    const group = `Experience ${index + 1}`;
+    fields.push(
+      { group, label: "Position", value: experience.position, confidence: experience.position ? confidence : "low" },
+      { group, label: "Company", value: experience.company, confidence: experience.company ? confidence : "low" },
+      {
+        group,
+        label: "Dates",
+        value: `${experience.startDate} – ${experience.endDate || "Present"}`,
+        confidence: entry.datesConfidence,
+      },
+    );
+    return experience;
+  });
+
+  const educationLines = sections.education ?? [];
+  const educationEntries = segmentEntries(educationLines).entries;
+  const education = educationEntries.length > 0
+    ? educationEntries.map((entry, index) => {
+        const { education, confidence } = toEducation(entry);
+        const group = `Education ${index + 1}`;
+        fields.push(
+          { group, label: "School", value: education.school, confidence: education.school ? confidence : "low" },
+          { group, label: "Degree", value: education.degree, confidence: education.degree ? confidence : "low" },
+          { group, label: "Dates", value: `${education.startDate} – ${education.endDate || "Present"}`, confidence: entry.datesConfidence },
+        );
+        return education;
+      })
+    : educationLines.length > 0
+      ? [educationWithoutDates(educationLines)]
+      : [];
+
+  if (educationEntries.length === 0 && education.length > 0) {
+    fields.push(
+      { group: "Education 1", label: "School", value: education[0].school, confidence: "low" },
+      { group: "Education 1", label: "Degree", value: education[0].degree, confidence: "low" },
+    );
+  }
+
+  const skills = parseSkills(sections.skills ?? []);
+  fields.push({
+    group: "Skills",
+    label: `${skills.length} skills`,
+    value: skills.join(", "),
+    confidence: skills.length > 0 ? "high" : "low",
+  });
+
+  return {
+    content: {
+      ...createEmptyResumeContent(),
+      personalInfo: { fullName, email, phone, location, summary },
+      experience,
+      education,
+      skills,
+    },
+    report: {
+      fields,
+      ignoredSections: ignoredSections.filter((section) => section.lines.length > 0),
+    },
+  };
+};
+
+/** Reads an uploaded PDF or DOCX resume into structured content plus a review report. */
+export const readResumeDocumentFile = async (file: File) => {
+  const { content, report } = parseResumeText(await extractDocumentLines(file));
+  return {
+    title: file.name.replace(/\.(pdf|docx)$/i, "") || "Imported Resume",
+    content,
+    report,
+  };
+};
@@ -0,0 +1,9 @@
+/** Loads pdf.js and its worker on demand, so neither is in the main bundle. */
+export const loadPdfjs = async () => {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+};
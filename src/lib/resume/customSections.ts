@@ -0,0 +1,44 @@
+import type { CustomEntry, CustomSection } from "./schema";
+
+export interface CustomSectionPreset {
+  id: string;
+  title: string;
+  kind: CustomSection["kind"];
+  /** The matching JSON Resume section, when the schema has one. */
+  jsonResumeKey?: string;
+}
+
+export const CUSTOM_SECTION_PRESETS: CustomSectionPreset[] = [
+  { id: "volunteering", title: "Volunteering", kind: "entries", jsonResumeKey: "volunteer" },
+  { id: "publications", title: "Publications", kind: "entries", jsonResumeKey: "publications" },
+  { id: "patents", title: "Patents", kind: "entries" },
+  { id: "speaking", title: "Speaking", kind: "entries" },
+  { id: "languages", title: "Languages", kind: "list", jsonResumeKey: "languages" },
+  { id: "interests", title: "Interests", kind: "list", jsonResumeKey: "interests" },
+];
+
+export const getCustomSectionPreset = (id: string | undefined) =>
+  CUSTOM_SECTION_PRESETS.find((preset) => preset.id === id);
+
+export const createCustomSection = (
+  title: string,
+  kind: CustomSection["kind"],
+  preset?: string
+): CustomSection => ({
+  id: crypto.randomUUID(),
+  title,
+  kind,
+  preset,
+  entries: [],
+  items: [],
+});
+
+export const createCustomEntry = (): CustomEntry => ({
+  id: crypto.randomUUID(),
+  title: "",
+  subtitle: "",
+  startDate: "",
+  endDate: "",
+  url: "",
+  description: "",
+});
@@ -0,0 +1,45 @@
+import type { ResumeContent } from "./schema";
+
+export const PERSONAL_INFO_LABELS: Record<keyof ResumeContent["personalInfo"], string> = {
+  fullName: "Full name",
+  email: "Email",
+  phone: "Phone",
+  location: "Location",
+  summary: "Professional summary",
+};
+
+export const DESIGN_LABELS: Record<keyof ResumeContent["design"], string> = {
+  primaryColor: "Primary color",
+  secondaryColor: "Secondary color",
+  fonts: "Fonts",
+  fontScale: "Font size",
+  margins: "Margins",
+  lineSpacing: "Line spacing",
+  heading: "Section headings",
+  columns: "Columns",
+};
+
+/** "startDate" -> "Start date", for labelling entry fields. */
+export const fieldLabel = (field: string) => {
+  const words = field.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/** A short, readable rendering of a stored value, e.g. one side of a change. */
+export const describeValue = (value: unknown): string => {
+  if (value === undefined) return "Deleted";
+  if (typeof value === "string") return value.trim() || "(empty)";
+  if (Array.isArray(value)) return value.map(describeValue).join(", ") || "(empty)";
+  if (typeof value === "object" && value !== null) {
+    const { id: _id, ...fields } = value as Record<string, unknown>;
+    const parts = Object.values(fields).filter((field): field is string => typeof field === "string" && field.trim() !== "");
+    return parts.slice(0, 3).join(" · ") || "(empty)";
+  }
+  return String(value);
+};
+
+/** The first non-empty text field, used to name an entry. */
+export const entryName = (entry: object | undefined) => {
+  const { id: _id, ...fields } = (entry ?? {}) as Record<string, unknown>;
+  return Object.values(fields).find((field): field is string => typeof field === "string" && field.trim() !== "") ?? "Untitled";
+};
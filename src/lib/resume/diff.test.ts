@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { diffResumeDrafts } from "./diff";
+import { createEmptyResumeContent, type ExperienceEntry, type ResumeContent } from "./schema";
+
+const job = (id: string, fields: Partial<ExperienceEntry> = {}): ExperienceEntry => ({
+  id,
+  company: `Company ${id}`,
+  position: "Engineer",
+  startDate: "2020-01",
+  endDate: "",
+  description: "",
+  ...fields,
+});
+
+const draft = (changes: Partial<ResumeContent> = {}, title = "Resume") => ({
+  title,
+  content: { ...createEmptyResumeContent(), ...changes },
+});
+
+describe("diffResumeDrafts", () => {
+  it("is empty for identical versions", () => {
+    const version = draft({ experience: [job("a")], skills: ["SQL"] });
+    expect(diffResumeDrafts(version, version)).toEqual([]);
+  });
+
+  it("lists edited fields by entry, plus added and removed entries", () => {
+    const before = draft({ experience: [job("a"), job("b")] });
+    const after = draft({ experience: [job("a", { position: "Lead" }), job("c")] });
+
+    expect(diffResumeDrafts(before, after)).toEqual([
+      {
+        key: "experience",
+        title: "Experience",
+        changes: [
+          { label: "Company a: Position", kind: "changed", before: "Engineer", after: "Lead" },
+          { label: "Company c", kind: "added", before: "", after: "Company c · Engineer · 2020-01" },
+          { label: "Company b", kind: "removed", before: "Company b · Engineer · 2020-01", after: "" },
+        ],
+      },
+    ]);
+  });
+
+  it("reports reordered entries once", () => {
+    const before = draft({ experience: [job("a"), job("b")] });
+    const after = draft({ experience: [job("b"), job("a")] });
+
+    expect(diffResumeDrafts(before, after)[0].changes).toEqual([
+      { label: "Order", kind: "changed", before: "Company a, Company b", after: "Company b, Company a" },
+    ]);
+  });
+
+  it("covers the title, personal details, skills and design", () => {
+    const before = draft({ skills: ["SQL", "Go"] });
+    const after = draft(
+      {
+        personalInfo: { ...before.content.personalInfo, fullName: "Jane Doe" },
+        skills: ["SQL", "Rust"],
+        design: { margins: "narrow" },
+      },
+      "Backend"
+    );
+
+    const diff = diffResumeDrafts(before, after);
+
+    expect(diff.map((section) => section.key)).toEqual(["details", "skills", "design"]);
+    expect(diff[0].changes.map((change) => [change.label, change.after])).toEqual([
+      ["Resume title", "Backend"],
+      ["Full name", "Jane Doe"],
+    ]);
+    expect(diff[1].changes.map((change) => [change.kind, change.label])).toEqual([["added", "Rust"], ["removed", "Go"]]);
+    expect(diff[2].changes).toEqual([{ label: "Margins", kind: "changed", before: "Template default", after: "narrow" }]);
+  });
+
+  it("diffs custom sections on their own", () => {
+    const section = { id: "s", title: "Languages", kind: "list" as const, entries: [], items: ["German"] };
+    const before = draft({ customSections: [section] });
+    const after = draft({ customSections: [{ ...section, items: ["German", "French"] }] });
+
+    expect(diffResumeDrafts(before, after)).toEqual([
+      { key: "custom:s", title: "Languages", changes: [{ label: "French", kind: "added", before: "", after: "French" }] },
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import type { CustomSection, ResumeContent } from "./schema";
+import type { ResumeDraft } from "./merge";
+import { DESIGN_LABELS, PERSONAL_INFO_LABELS, describeValue, entryName, fieldLabel } from "./describe";
+
+export interface FieldChange {
+  label: string;
+  kind: "added" | "removed" | "changed";
+  /** Empty for added values. */
+  before: string;
+  /** Empty for removed values. */
+  after: string;
+}
+
+export interface SectionDiff {
+  key: string;
+  title: string;
+  changes: FieldChange[];
+}
+
+const isEqual = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffFields = (
+  before: object,
+  after: object,
+  { prefix, labels = {} }: { prefix?: string; labels?: Record<string, string> } = {}
+): FieldChange[] => {
+  const [a, b] = [before as Record<string, unknown>, after as Record<string, unknown>];
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].filter((key) => key !== "id");
+
+  return keys
+    .filter((key) => !isEqual(a[key] ?? "", b[key] ?? ""))
+    .map((key) => {
+      const label = labels[key] ?? fieldLabel(key);
+      return {
+        label: prefix ? `${prefix}: ${label}` : label,
+        kind: "changed" as const,
+        before: describeValue(a[key] ?? ""),
+        after: describeValue(b[key] ?? ""),
+      };
+    });
+};
+
+/** Compares entries by id: additions, removals, edited fields and reordering. */
+const diffEntries = <T extends { id: string }>(before: T[], after: T[]): FieldChange[] => {
+  const beforeById = new Map(before.map((entry) => [entry.id, entry]));
+  const afterIds = new Set(after.map((entry) => entry.id));
+  const changes: FieldChange[] = [];
+
+  for (const entry of after) {
+    const previous = beforeById.get(entry.id);
+    if (previous) {
+      changes.push(...diffFields(previous, entry, { prefix: entryName(entry) }));
+    } else {
+      changes.push({ label: entryName(entry), kind: "added", before: "", after: describeValue(entry) });
+    }
+  }
+  for (const entry of before) {
+    if (!afterIds.has(entry.id)) {
+      changes.push({ label: entryName(entry), kind: "removed", before: describeValue(entry), after: "" });
+    }
+  }
+
+  const kept = (list: T[]) => list.filter((entry) => beforeById.has(entry.id) && afterIds.has(entry.id));
+  if (!isEqual(kept(before).map((entry) => entry.id), kept(after).map((entry) => entry.id))) {
+    changes.push({
+      label: "Order",
+      kind: "changed",
+      before: kept(before).map(entryName).join(", "),
+      after: kept(after).map(entryName).join(", "),
+    });
+  }
+  return changes;
+};
+
+const diffItems = (before: string[], after: string[]): FieldChange[] => {
+  const added = after.filter((item) => !before.includes(item));
+  const removed = before.filter((item) => !after.includes(item));
+  const changes: FieldChange[] = [
+    ...added.map((item) => ({ label: item || "(empty)", kind: "added" as const, before: "", after: item })),
+    ...removed.map((item) => ({ label: item || "(empty)", kind: "removed" as const, before: item, after: "" })),
+  ];
+
+  if (changes.length === 0 && !isEqual(before, after)) {
+    changes.push({ label: "Order", kind: "changed", before: before.join(", "), after: after.join(", ") });
+  }
+  return changes;
+};
+
+const diffCustomSections = (before: CustomSection[], after: CustomSection[]): SectionDiff[] => {
+  const beforeById = new Map(before.map((section) => [section.id, section]));
+  const afterById = new Map(after.map((section) => [section.id, section]));
+  const ids = [...new Set([...afterById.keys(), ...beforeById.keys()])];
+
+  return ids.map((id) => {
+    const previous = beforeById.get(id);
+    const current = afterById.get(id);
+    const title = (current ?? previous).title || "Untitled section";
+    const summary = (section: CustomSection) =>
+      section.kind === "list" ? describeValue(section.items) : describeValue(section.entries.map(entryName));
+
+    let changes: FieldChange[];
+    if (!previous) {
+      changes = [{ label: "Section", kind: "added", before: "", after: summary(current) }];
+    } else if (!current) {
+      changes = [{ label: "Section", kind: "removed", before: summary(previous), after: "" }];
+    } else {
+      changes = [
+        ...diffFields({ title: previous.title }, { title: current.title }),
+        ...diffItems(previous.items, current.items),
+        ...diffEntries(previous.entries, current.entries),
+      ];
+    }
+    return { key: `custom:${id}`, title, changes };
+  });
+};
+
+const describeSectionOrder = (content: ResumeContent) => {
+  if (content.sectionOrder.length === 0) return "Default order";
+  return content.sectionOrder
+    .map((key) => key.startsWith("custom:")
+      ? content.customSections.find((section) => `custom:${section.id}` === key)?.title || "Untitled section"
+      : fieldLabel(key))
+    .join(", ");
+};
+
+const describeDesign = (design: ResumeContent["design"]) =>
+  Object.fromEntries(Object.keys(DESIGN_LABELS).map((key) => [key, String(design[key] ?? "Template default")]));
+
+/**
+ * Field-level differences between two versions of a resume, grouped by
+ * section. Sections without changes are left out.
+ */
+export const diffResumeDrafts = (before: ResumeDraft, after: ResumeDraft): SectionDiff[] => {
+  const [a, b] = [before.content, after.content];
+
+  const sections: SectionDiff[] = [
+    {
+      key: "details",
+      title: "Details",
+      changes: [
+        ...diffFields({ title: before.title }, { title: after.title }, { labels: { title: "Resume title" } }),
+        ...diffFields(a.personalInfo, b.personalInfo, { labels: PERSONAL_INFO_LABELS }),
+      ],
+    },
+    { key: "experience", title: "Experience", changes: diffEntries(a.experience, b.experience) },
+    { key: "projects", title: "Projects", changes: diffEntries(a.projects, b.projects) },
+    { key: "education", title: "Education", changes: diffEntries(a.education, b.education) },
+    { key: "certifications", title: "Certifications", changes: diffEntries(a.certifications, b.certifications) },
+    { key: "awards", title: "Awards", changes: diffEntries(a.awards, b.awards) },
+    { key: "skills", title: "Skills", changes: diffItems(a.skills, b.skills) },
+    ...diffCustomSections(a.customSections, b.customSections),
+    {
+      key: "sectionOrder",
+      title: "Layout",
+      changes: isEqual(a.sectionOrder, b.sectionOrder)
+        ? []
+        : [{ label: "Section order", kind: "changed", before: describeSectionOrder(a), after: describeSectionOrder(b) }],
+    },
+    {
+      key: "design",
+      title: "Design",
+      changes: diffFields(describeDesign(a.design), describeDesign(b.design), { labels: DESIGN_LABELS }),
+    },
+  ];
+
+  return sections.filter((section) => section.changes.length > 0);
+};
@@ -0,0 +1,55 @@
+/** Formats a `YYYY-MM` value from the Builder's month inputs as e.g. "Mar 2021". */
+export const formatResumeDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})/.exec(value);
+  if (!match) return value;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, 1);
+  return date.toLocaleDateString("en-US", { month: "short", year: "numeric" });
+};
+
+export const formatDateRange = (startDate: string, endDate: string) => {
+  if (!startDate && !endDate) return "";
+  if (!startDate) return formatResumeDate(endDate);
+  return `${formatResumeDate(startDate)} – ${endDate ? formatResumeDate(endDate) : "Present"}`;
+};
+
+/** Validity of a certification, e.g. "Mar 2021 – Mar 2024" or "Expires Mar 2024". */
+export const formatValidity = (issueDate: string, expiryDate: string) => {
+  if (!expiryDate) return issueDate ? formatResumeDate(issueDate) : "";
+  if (!issueDate) return `Expires ${formatResumeDate(expiryDate)}`;
+  return `${formatResumeDate(issueDate)} – ${formatResumeDate(expiryDate)}`;
+};
+
+/** Whether a `YYYY-MM` expiry month has fully passed. */
+export const isExpired = (expiryDate: string, now = new Date()) => {
+  const match = /^(\d{4})-(\d{2})/.exec(expiryDate);
+  if (!match) return false;
+
+  const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+  return `${match[1]}-${match[2]}` < currentMonth;
+};
+
+/** Shortens a link for print, e.g. "https://github.com/me/app/" → "github.com/me/app". */
+export const formatLink = (url: string) =>
+  url.trim().replace(/^https?:\/\//i, "").replace(/^www\./i, "").replace(/\/$/, "");
+
+export interface DescriptionLine {
+  kind: "bullet" | "text";
+  text: string;
+}
+
+/**
+ * Splits a free-text description into lines, treating lines that start with
+ * "-", "*" or "•" as bullet points.
+ */
+export const parseDescription = (description: string): DescriptionLine[] =>
+  description
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const bullet = /^[-*•]\s*/.exec(line);
+      return bullet
+        ? { kind: "bullet" as const, text: line.slice(bullet[0].length) }
+        : { kind: "text" as const, text: line };
+    });
@@ -0,0 +1,10 @@
+export * from "./schema";
+export * from "./migrations";
+export * from "./template";
+export * from "./format";
+export * from "./customSections";
+export * from "./merge";
+export * from "./diff";
+export * from "./variants";
+export * from "./personalData";
+export * from "./search";
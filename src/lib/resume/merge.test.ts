@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { mergeResumeContent, mergeResumeDrafts } from "./merge";
+import { createEmptyResumeContent, type ExperienceEntry, type ResumeContent } from "./schema";
+
+const job = (id: string, fields: Partial<ExperienceEntry> = {}): ExperienceEntry => ({
+  id,
+  company: `Company ${id}`,
+  position: "Engineer",
+  startDate: "2020-01",
+  endDate: "",
+  description: "",
+  ...fields,
+});
+
+const resume = (experience: ExperienceEntry[], changes: Partial<ResumeContent> = {}): ResumeContent => ({
+  ...createEmptyResumeContent(),
+  experience,
+  ...changes,
+});
+
+const ids = (content: ResumeContent) => content.experience.map((entry) => entry.id);
+
+describe("mergeResumeContent", () => {
+  it("merges edits to different fields of the same entry", () => {
+    const base = resume([job("a")]);
+    const local = resume([job("a", { company: "Northwind" })]);
+    const remote = resume([job("a", { startDate: "2019-06" })]);
+
+    const { merged, conflicts, incoming } = mergeResumeContent(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.experience).toEqual([job("a", { company: "Northwind", startDate: "2019-06" })]);
+    expect(incoming.map((change) => change.key)).toEqual(["experience:a.startDate"]);
+  });
+
+  it("reports a field both sides changed and resolves it from the choices", () => {
+    const base = resume([job("a")]);
+    const local = resume([job("a", { position: "Lead" })]);
+    const remote = resume([job("a", { position: "Manager" })]);
+
+    const { merged, conflicts } = mergeResumeContent(base, local, remote);
+    expect(conflicts).toEqual([
+      { key: "experience:a.position", label: "Experience: Company a: Position", local: "Lead", remote: "Manager" },
+    ]);
+    expect(merged.experience[0].position).toBe("Lead");
+
+    const chosen = mergeResumeContent(base, local, remote, { "experience:a.position": "remote" });
+    expect(chosen.merged.experience[0].position).toBe("Manager");
+  });
+
+  it("treats deleting an entry the other side edited as a conflict over the whole entry", () => {
+    const base = resume([job("a"), job("b")]);
+    const local = resume([job("b")]);
+    const remote = resume([job("a", { position: "Lead" }), job("b")]);
+
+    const { merged, conflicts } = mergeResumeContent(base, local, remote);
+    expect(conflicts.map((conflict) => [conflict.key, conflict.local])).toEqual([["experience:a", "Deleted"]]);
+    expect(ids(merged)).toEqual(["b"]);
+
+    const kept = mergeResumeContent(base, local, remote, { "experience:a": "remote" }).merged;
+    expect(kept.experience).toEqual([job("b"), job("a", { position: "Lead" })]);
+  });
+
+  it("applies a delete when the other side left the entry alone", () => {
+    const base = resume([job("a"), job("b")]);
+    const local = resume([job("a"), job("b", { endDate: "2024-01" })]);
+    const remote = resume([job("b")]);
+
+    const { merged, conflicts, incoming } = mergeResumeContent(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.experience).toEqual([job("b", { endDate: "2024-01" })]);
+    expect(incoming.map((change) => [change.key, change.remote])).toEqual([["experience:a", "Deleted"]]);
+  });
+
+  it("keeps the local order when both sides reorder, appending entries added remotely", () => {
+    const base = resume([job("a"), job("b"), job("c")]);
+    const local = resume([job("c"), job("a"), job("b")]);
+    const remote = resume([job("b"), job("a"), job("c"), job("d")]);
+
+    expect(ids(mergeResumeContent(base, local, remote).merged)).toEqual(["c", "a", "b", "d"]);
+  });
+
+  it("takes the remote order when only the remote side reordered", () => {
+    const base = resume([job("a"), job("b")]);
+    const local = resume([job("a", { company: "Northwind" }), job("b")]);
+    const remote = resume([job("b"), job("a")]);
+
+    const { merged } = mergeResumeContent(base, local, remote);
+
+    expect(merged.experience).toEqual([job("b"), job("a", { company: "Northwind" })]);
+  });
+
+  it("can hold back remote-only changes", () => {
+    const base = resume([job("a")], { skills: ["SQL"] });
+    const remote = resume([job("a", { company: "Northwind" })], { skills: ["SQL", "Go"] });
+
+    const { merged, incoming } = mergeResumeContent(base, base, remote, {}, (key) => key === "skills");
+
+    expect(incoming).toHaveLength(2);
+    expect(merged.skills).toEqual(["SQL", "Go"]);
+    expect(merged.experience).toEqual([job("a")]);
+  });
+});
+
+describe("mergeResumeDrafts", () => {
+  it("merges the title like any other field", () => {
+    const content = resume([]);
+    const base = { title: "Resume", content };
+
+    expect(mergeResumeDrafts(base, base, { title: "Backend", content }).merged.title).toBe("Backend");
+
+    const { merged, conflicts } = mergeResumeDrafts(base, { title: "Mine", content }, { title: "Theirs", content });
+    expect(merged.title).toBe("Mine");
+    expect(conflicts.map((conflict) => conflict.key)).toEqual(["title"]);
+  });
+});
@@ -0,0 +1,170 @@
+import type { ResumeContent } from "./schema";
+import { PERSONAL_INFO_LABELS, describeValue, entryName, fieldLabel } from "./describe";
+
+/** The parts of a `resumes` row the Builder edits. */
+export interface ResumeDraft {
+  title: string;
+  content: ResumeContent;
+}
+
+export type MergeSide = "local" | "remote";
+
+/** A field the remote side changed, shown next to the local value. */
+export interface MergeChange {
+  key: string;
+  label: string;
+  local: string;
+  remote: string;
+}
+
+/** A field both sides changed differently; the user picks which one to keep. */
+export type MergeConflict = MergeChange;
+
+interface MergeResult<T> {
+  merged: T;
+  conflicts: MergeConflict[];
+  /** Fields only the remote side changed. */
+  incoming: MergeChange[];
+}
+
+type Choices = Record<string, MergeSide>;
+
+type EntryListKey = "experience" | "projects" | "education" | "certifications" | "awards" | "customSections";
+
+const ENTRY_LISTS: Record<EntryListKey, string> = {
+  experience: "Experience",
+  projects: "Projects",
+  education: "Education",
+  certifications: "Certifications",
+  awards: "Awards",
+  customSections: "Section",
+};
+
+const isEqual = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merges two edited copies of a resume against the version they
+ * both started from. Fields changed on one side only are taken from that side;
+ * fields changed differently on both sides are returned as conflicts and
+ * resolved from `choices`, keeping the local value by default.
+ *
+ * Entries and custom sections merge one at a time by id and then field by
+ * field, so editing an entry's company on one device and its dates on a
+ * second device never conflicts.
+ * `acceptRemote` can hold back remote-only changes, e.g. to pull just some.
+ */
+export const mergeResumeContent = (
+  base: ResumeContent,
+  local: ResumeContent,
+  remote: ResumeContent,
+  choices: Choices = {},
+  acceptRemote: (key: string) => boolean = () => true
+): MergeResult<ResumeContent> => {
+  const conflicts: MergeConflict[] = [];
+  const incoming: MergeChange[] = [];
+
+  const resolve = <T>(key: string, label: string, baseValue: T, localValue: T, remoteValue: T): T => {
+    if (isEqual(localValue, remoteValue) || isEqual(baseValue, remoteValue)) return localValue;
+
+    const change = { key, label, local: describeValue(localValue), remote: describeValue(remoteValue) };
+    if (isEqual(baseValue, localValue)) {
+      incoming.push(change);
+      return acceptRemote(key) ? remoteValue : localValue;
+    }
+
+    conflicts.push(change);
+    return choices[key] === "remote" ? remoteValue : localValue;
+  };
+
+  const mergeList = <T extends { id: string }>(section: EntryListKey, baseList: T[], localList: T[], remoteList: T[]) => {
+    const ids = (list: T[]) => list.map((entry) => entry.id);
+    // Keep whichever side reordered; entries only one side has are appended.
+    const primary = isEqual(ids(baseList), ids(localList)) ? remoteList : localList;
+    const secondary = primary === localList ? remoteList : localList;
+    const order = [...new Set([...ids(primary), ...ids(secondary)])];
+
+    const byId = (list: T[]) => new Map(list.map((entry) => [entry.id, entry]));
+    const [baseById, localById, remoteById] = [byId(baseList), byId(localList), byId(remoteList)];
+
+    return order.flatMap((id) => {
+      const [baseEntry, localEntry, remoteEntry] = [baseById.get(id), localById.get(id), remoteById.get(id)];
+      const key = `${section}:${id}`;
+      const label = `${ENTRY_LISTS[section]}: ${entryName(localEntry ?? remoteEntry ?? baseEntry)}`;
+
+      // Entries added or deleted on either side merge whole; edits merge field by field.
+      if (!baseEntry || !localEntry || !remoteEntry) {
+        const entry = resolve(key, label, baseEntry, localEntry, remoteEntry);
+        return entry ? [entry] : [];
+      }
+
+      const fields = new Set([...Object.keys(baseEntry), ...Object.keys(localEntry), ...Object.keys(remoteEntry)]);
+      fields.delete("id");
+      const entry: Record<string, unknown> = { ...localEntry };
+      for (const field of fields) {
+        entry[field] = resolve(
+          `${key}.${field}`,
+          `${label}: ${fieldLabel(field)}`,
+          (baseEntry as Record<string, unknown>)[field],
+          (localEntry as Record<string, unknown>)[field],
+          (remoteEntry as Record<string, unknown>)[field]
+        );
+      }
+      return [entry as T];
+    });
+  };
+
+  const personalInfo = { ...local.personalInfo };
+  for (const field of Object.keys(PERSONAL_INFO_LABELS) as (keyof ResumeContent["personalInfo"])[]) {
+    personalInfo[field] = resolve(
+      `personalInfo.${field}`,
+      PERSONAL_INFO_LABELS[field],
+      base.personalInfo[field],
+      local.personalInfo[field],
+      remote.personalInfo[field]
+    );
+  }
+
+  const merged: ResumeContent = {
+    ...local,
+    personalInfo,
+    experience: mergeList("experience", base.experience, local.experience, remote.experience),
+    projects: mergeList("projects", base.projects, local.projects, remote.projects),
+    education: mergeList("education", base.education, local.education, remote.education),
+    certifications: mergeList("certifications", base.certifications, local.certifications, remote.certifications),
+    awards: mergeList("awards", base.awards, local.awards, remote.awards),
+    customSections: mergeList("customSections", base.customSections, local.customSections, remote.customSections),
+    skills: resolve("skills", "Skills", base.skills, local.skills, remote.skills),
+    sectionOrder: resolve("sectionOrder", "Section order", base.sectionOrder, local.sectionOrder, remote.sectionOrder),
+    design: resolve("design", "Design", base.design, local.design, remote.design),
+    extraSections: resolve("extraSections", "Imported sections", base.extraSections, local.extraSections, remote.extraSections),
+  };
+
+  return { merged, conflicts, incoming };
+};
+
+/** {@link mergeResumeContent}, plus the resume title. */
+export const mergeResumeDrafts = (
+  base: ResumeDraft,
+  local: ResumeDraft,
+  remote: ResumeDraft,
+  choices: Choices = {}
+): MergeResult<ResumeDraft> => {
+  const content = mergeResumeContent(base.content, local.content, remote.content, choices);
+  const conflicts: MergeConflict[] = [];
+  let title = local.title;
+
+  if (!isEqual(local.title, remote.title) && !isEqual(base.title, remote.title)) {
+    if (isEqual(base.title, local.title)) {
+      title = remote.title;
+    } else {
+      conflicts.push({ key: "title", label: "Resume title", local: describeValue(local.title), remote: describeValue(remote.title) });
+      if (choices.title === "remote") title = remote.title;
+    }
+  }
+
+  return {
+    merged: { title, content: content.merged },
+    conflicts: [...conflicts, ...content.conflicts],
+    incoming: content.incoming,
+  };
+};
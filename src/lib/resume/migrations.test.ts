@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { parseResumeContent } from "./migrations";
+
+describe("parseResumeContent", () => {
+  it("moves imported JSON Resume sections into custom sections", () => {
+    const content = parseResumeContent({
+      schemaVersion: 3,
+      extraSections: {
+        volunteer: [{ organization: "Food Bank", position: "Driver", startDate: "2019-04-01", highlights: ["Weekly routes"] }],
+        publications: [{ name: "On Resumes", publisher: "Example Press", releaseDate: "2021" }],
+        languages: [{ language: "German", fluency: "Fluent" }, { language: "French" }],
+        interests: [{ name: "Climbing", keywords: ["bouldering"] }],
+        references: [{ name: "Sam" }],
+      },
+    });
+
+    expect(content.customSections.map((section) => [section.title, section.kind, section.preset])).toEqual([
+      ["Volunteering", "entries", "volunteering"],
+      ["Publications", "entries", "publications"],
+      ["Languages", "list", "languages"],
+      ["Interests", "list", "interests"],
+    ]);
+    expect(content.customSections[0].entries[0]).toMatchObject({
+      title: "Driver",
+      subtitle: "Food Bank",
+      startDate: "2019-04",
+      description: "- Weekly routes",
+    });
+    expect(content.customSections[1].entries[0]).toMatchObject({ title: "On Resumes", startDate: "2021-01" });
+    expect(content.customSections[2].items).toEqual(["German (Fluent)", "French"]);
+    expect(content.customSections[3].items).toEqual(["Climbing: bouldering"]);
+    expect(content.extraSections).toEqual({ references: [{ name: "Sam" }] });
+  });
+});
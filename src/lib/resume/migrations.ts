@@ -0,0 +1,211 @@
+import type { Json } from "@/integrations/supabase/types";
+import { RESUME_SCHEMA_VERSION, validateResumeContent, type ResumeContent } from "./schema";
+
+type StoredDocument = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const asString = (value: unknown) => (typeof value === "string" ? value : "");
+const asStrings = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+const asMonth = (value: unknown) => {
+  const date = asString(value).trim();
+  return /^\d{4}-\d{2}/.exec(date)?.[0] ?? (/^\d{4}$/.test(date) ? `${date}-01` : "");
+};
+
+/**
+ * Upgrades keyed by the version they migrate *from*. Documents saved before
+ * `schemaVersion` existed are treated as version 0. Migrations describe stored
+ * data at that point in time, so they must not reuse evolving app code.
+ */
+const migrations: Record<number, (document: StoredDocument) => StoredDocument> = {
+  // v0 → v1: introduces `schemaVersion`. Missing fields and entry ids are
+  // filled in by the schema defaults.
+  0: (document) => ({ ...document, schemaVersion: 1 }),
+
+  // v1 → v2: adds `projects`. JSON Resume imports kept their projects in
+  // `extraSections`; lift them into the editable section.
+  1: (document) => {
+    const { projects, ...extraSections } = isRecord(document.extraSections) ? document.extraSections : {};
+    const imported = Array.isArray(projects) ? projects.filter(isRecord) : [];
+
+    return {
+      ...document,
+      schemaVersion: 2,
+      projects: imported.map((project) => ({
+        id: crypto.randomUUID(),
+        name: asString(project.name),
+        role: asStrings(project.roles).join(", "),
+        url: asString(project.url),
+        repository: asString(project.repository),
+        technologies: asStrings(project.keywords),
+        startDate: asMonth(project.startDate),
+        endDate: asMonth(project.endDate),
+        description: [asString(project.description), ...asStrings(project.highlights).map((line) => `- ${line}`)]
+          .filter(Boolean)
+          .join("\n"),
+      })),
+      extraSections: Object.keys(extraSections).length > 0 ? extraSections : undefined,
+    };
+  },
+
+  // v2 → v3: adds `certifications` and `awards`, lifting JSON Resume
+  // `certificates` and `awards` out of `extraSections`.
+  2: (document) => {
+    const { certificates, awards, ...extraSections } = isRecord(document.extraSections) ? document.extraSections : {};
+    const records = (value: unknown) => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+    return {
+      ...document,
+      schemaVersion: 3,
+      certifications: records(certificates).map((certificate) => ({
+        id: crypto.randomUUID(),
+        name: asString(certificate.name),
+        issuer: asString(certificate.issuer),
+        credentialId: "",
+        issueDate: asMonth(certificate.date),
+        expiryDate: "",
+        url: asString(certificate.url),
+      })),
+      awards: records(awards).map((award) => ({
+        id: crypto.randomUUID(),
+        title: asString(award.title),
+        awarder: asString(award.awarder),
+        date: asMonth(award.date),
+        description: asString(award.summary),
+      })),
+      extraSections: Object.keys(extraSections).length > 0 ? extraSections : undefined,
+    };
+  },
+
+  // v3 → v4: adds user-defined `customSections`, lifting JSON Resume
+  // `volunteer`, `publications`, `languages` and `interests` out of
+  // `extraSections`.
+  3: (document) => {
+    const { volunteer, publications, languages, interests, ...extraSections } =
+      isRecord(document.extraSections) ? document.extraSections : {};
+    const records = (value: unknown) => (Array.isArray(value) ? value.filter(isRecord) : []);
+    const section = (title: string, kind: "entries" | "list", preset: string) => ({
+      id: crypto.randomUUID(),
+      title,
+      kind,
+      preset,
+      entries: [],
+      items: [],
+    });
+    const entry = (fields: { title: unknown; subtitle: unknown; startDate?: unknown; endDate?: unknown; url: unknown; description: string }) => ({
+      id: crypto.randomUUID(),
+      title: asString(fields.title),
+      subtitle: asString(fields.subtitle),
+      startDate: asMonth(fields.startDate),
+      endDate: asMonth(fields.endDate),
+      url: asString(fields.url),
+      description: fields.description,
+    });
+
+    const customSections = [];
+    if (records(volunteer).length > 0) {
+      customSections.push({
+        ...section("Volunteering", "entries", "volunteering"),
+        entries: records(volunteer).map((item) => entry({
+          title: item.position,
+          subtitle: item.organization,
+          startDate: item.startDate,
+          endDate: item.endDate,
+          url: item.url,
+          description: [asString(item.summary), ...asStrings(item.highlights).map((line) => `- ${line}`)]
+            .filter(Boolean)
+            .join("\n"),
+        })),
+      });
+    }
+    if (records(publications).length > 0) {
+      customSections.push({
+        ...section("Publications", "entries", "publications"),
+        entries: records(publications).map((item) => entry({
+          title: item.name,
+          subtitle: item.publisher,
+          startDate: item.releaseDate,
+          url: item.url,
+          description: asString(item.summary),
+        })),
+      });
+    }
+    if (records(languages).length > 0) {
+      customSections.push({
+        ...section("Languages", "list", "languages"),
+        items: records(languages).map((item) =>
+          asString(item.fluency) ? `${asString(item.language)} (${asString(item.fluency)})` : asString(item.language)
+        ),
+      });
+    }
+    if (records(interests).length > 0) {
+      customSections.push({
+        ...section("Interests", "list", "interests"),
+        items: records(interests).map((item) =>
+          asStrings(item.keywords).length > 0 ? `${asString(item.name)}: ${asStrings(item.keywords).join(", ")}` : asString(item.name)
+        ),
+      });
+    }
+
+    return {
+      ...document,
+      schemaVersion: 4,
+      customSections,
+      extraSections: Object.keys(extraSections).length > 0 ? extraSections : undefined,
+    };
+  },
+
+  // v4 → v5: adds `sectionOrder`; empty keeps the default order.
+  4: (document) => ({ ...document, schemaVersion: 5, sectionOrder: [] }),
+
+  // v5 → v6: adds `design` overrides; empty keeps the template's look.
+  5: (document) => ({ ...document, schemaVersion: 6, design: {} }),
+};
+
+const readVersion = (document: StoredDocument) => {
+  const version = document.schemaVersion;
+  return typeof version === "number" && Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+/** Runs every migration between the stored version and the current one. */
+export const migrateResumeContent = (raw: Json | null | undefined): StoredDocument => {
+  let document: StoredDocument = raw && typeof raw === "object" && !Array.isArray(raw) ? { ...raw } : {};
+  let version = readVersion(document);
+
+  if (version > RESUME_SCHEMA_VERSION) {
+    throw new Error("This resume was saved by a newer version of the app. Reload the page to edit it.");
+  }
+
+  while (version < RESUME_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from resume schema version ${version}.`);
+    }
+    document = migrate(document);
+    version = readVersion(document);
+  }
+
+  return document;
+};
+
+/**
+ * Reads a stored `resumes.content` value, upgrading older documents. Throws
+ * when the document cannot be made valid.
+ */
+export const parseResumeContent = (raw: Json | null | undefined): ResumeContent => {
+  const result = validateResumeContent(migrateResumeContent(raw));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Resume content is invalid at "${issue.path.join(".")}": ${issue.message}`);
+  }
+  return result.data;
+};
+
+/** Converts content for a Supabase insert or update. */
+export const serializeResumeContent = (content: ResumeContent): Json => {
+  const result = validateResumeContent(content);
+  if (!result.success) throw result.error;
+  return result.data as unknown as Json;
+};
@@ -0,0 +1,24 @@
+import type { ResumeContent } from "./schema";
+
+/**
+ * A copy of the content with contact details and credential identifiers
+ * removed, for saving a resume as a reusable template. Section structure,
+ * entries and wording are kept so new resumes don't start from scratch;
+ * sections carried over from imports are dropped, as they may hold anything.
+ */
+export const stripPersonalData = (content: ResumeContent): ResumeContent => ({
+  ...content,
+  personalInfo: {
+    ...content.personalInfo,
+    fullName: "",
+    email: "",
+    phone: "",
+    location: "",
+  },
+  certifications: content.certifications.map((certification) => ({
+    ...certification,
+    credentialId: "",
+    url: "",
+  })),
+  extraSections: undefined,
+});
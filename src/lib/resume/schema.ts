@@ -0,0 +1,256 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+
+/**
+ * Version of the stored `resumes.content` document. Bump it whenever the shape
+ * changes and register a migration from the previous version in `migrations.ts`.
+ */
+export const RESUME_SCHEMA_VERSION = 6;
+
+const jsonValueSchema: z.ZodType<Json> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.array(jsonValueSchema),
+    z.record(jsonValueSchema),
+  ])
+);
+
+const text = z.string().default("");
+const entryId = z.string().min(1).default(() => crypto.randomUUID());
+
+export const experienceEntrySchema = z.object({
+  id: entryId,
+  company: text,
+  position: text,
+  startDate: text,
+  endDate: text,
+  description: text,
+});
+
+export const educationEntrySchema = z.object({
+  id: entryId,
+  school: text,
+  degree: text,
+  startDate: text,
+  endDate: text,
+  description: text,
+});
+
+export const projectEntrySchema = z.object({
+  id: entryId,
+  name: text,
+  role: text,
+  url: text,
+  repository: text,
+  technologies: z.array(z.string()).default([]),
+  startDate: text,
+  endDate: text,
+  description: text,
+});
+
+export const certificationEntrySchema = z.object({
+  id: entryId,
+  name: text,
+  issuer: text,
+  credentialId: text,
+  issueDate: text,
+  expiryDate: text,
+  url: text,
+});
+
+export const awardEntrySchema = z.object({
+  id: entryId,
+  title: text,
+  awarder: text,
+  date: text,
+  description: text,
+});
+
+export const customEntrySchema = z.object({
+  id: entryId,
+  title: text,
+  subtitle: text,
+  startDate: text,
+  endDate: text,
+  url: text,
+  description: text,
+});
+
+export const customSectionSchema = z.object({
+  id: entryId,
+  title: text,
+  kind: z.enum(["entries", "list"]).default("entries"),
+  preset: z.string().optional(),
+  entries: z.array(customEntrySchema).default([]),
+  items: z.array(z.string()).default([]),
+});
+
+const FONT_PAIRINGS = ["sans", "serif", "display", "serif-sans", "display-sans"] as const;
+const HEADING_STYLES = ["rule", "caps", "bar", "underline", "pill"] as const;
+
+export const resumeDesignSchema = z.object({
+  primaryColor: z.string().optional(),
+  secondaryColor: z.string().optional(),
+  fonts: z.enum(FONT_PAIRINGS).optional(),
+  fontScale: z.number().min(0.8).max(1.2).optional(),
+  margins: z.enum(["narrow", "normal", "wide"]).optional(),
+  lineSpacing: z.enum(["tight", "normal", "relaxed"]).optional(),
+  heading: z.enum(HEADING_STYLES).optional(),
+  columns: z.enum(["one", "two"]).optional(),
+});
+
+export const resumeContentSchema = z.object({
+  schemaVersion: z.literal(RESUME_SCHEMA_VERSION),
+  personalInfo: z
+    .object({
+      fullName: text,
+      email: text,
+      phone: text,
+      location: text,
+      summary: text,
+    })
+    .default({}),
+  experience: z.array(experienceEntrySchema).default([]),
+  education: z.array(educationEntrySchema).default([]),
+  projects: z.array(projectEntrySchema).default([]),
+  certifications: z.array(certificationEntrySchema).default([]),
+  awards: z.array(awardEntrySchema).default([]),
+  customSections: z.array(customSectionSchema).default([]),
+  skills: z.array(z.string()).default([]),
+  sectionOrder: z.array(z.string()).default([]),
+  design: resumeDesignSchema.default({}),
+  extraSections: z.record(jsonValueSchema).optional(),
+});
+
+/*
+ * The app type-checks without `strictNullChecks`, where zod infers every field
+ * as optional, so the content types are declared explicitly.
+ */
+export interface ExperienceEntry {
+  id: string;
+  company: string;
+  position: string;
+  startDate: string;
+  endDate: string;
+  description: string;
+}
+
+export interface EducationEntry {
+  id: string;
+  school: string;
+  degree: string;
+  startDate: string;
+  endDate: string;
+  description: string;
+}
+
+export interface ProjectEntry {
+  id: string;
+  name: string;
+  role: string;
+  url: string;
+  repository: string;
+  technologies: string[];
+  startDate: string;
+  endDate: string;
+  description: string;
+}
+
+export interface CertificationEntry {
+  id: string;
+  name: string;
+  issuer: string;
+  credentialId: string;
+  issueDate: string;
+  /** Empty when the credential does not expire. */
+  expiryDate: string;
+  url: string;
+}
+
+export interface AwardEntry {
+  id: string;
+  title: string;
+  awarder: string;
+  date: string;
+  description: string;
+}
+
+export interface CustomEntry {
+  id: string;
+  title: string;
+  subtitle: string;
+  startDate: string;
+  /** Optional; entries with only a start date show a single date. */
+  endDate: string;
+  url: string;
+  description: string;
+}
+
+export interface CustomSection {
+  id: string;
+  title: string;
+  /** Titled, dated entries or a simple list of short items. */
+  kind: "entries" | "list";
+  /** The preset the section was created from, e.g. "volunteering". */
+  preset?: string;
+  entries: CustomEntry[];
+  items: string[];
+}
+
+/** Per-resume style overrides; anything left unset keeps the template's look. */
+export interface ResumeDesign {
+  /** `#rrggbb` accent colors. */
+  primaryColor?: string;
+  secondaryColor?: string;
+  /** Heading and body fonts, e.g. `serif-sans` for serif headings over sans body text. */
+  fonts?: (typeof FONT_PAIRINGS)[number];
+  /** Multiplies every font size; 1 is the template's size. */
+  fontScale?: number;
+  margins?: "narrow" | "normal" | "wide";
+  lineSpacing?: "tight" | "normal" | "relaxed";
+  heading?: (typeof HEADING_STYLES)[number];
+  columns?: "one" | "two";
+}
+
+export interface ResumeContent {
+  schemaVersion: typeof RESUME_SCHEMA_VERSION;
+  personalInfo: {
+    fullName: string;
+    email: string;
+    phone: string;
+    location: string;
+    summary: string;
+  };
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+  projects: ProjectEntry[];
+  certifications: CertificationEntry[];
+  awards: AwardEntry[];
+  customSections: CustomSection[];
+  skills: string[];
+  /**
+   * Section keys in the order the user arranged them. Sections missing from
+   * the list follow in their default order; empty means the default order.
+   */
+  sectionOrder: string[];
+  design: ResumeDesign;
+  /**
+   * Sections from imported documents that the builder cannot edit, keyed by
+   * their JSON Resume name, so they survive a round trip through export.
+   */
+  extraSections?: Record<string, Json>;
+}
+
+/** Validates a migrated document, filling in defaults for missing fields. */
+export const validateResumeContent = (document: unknown) =>
+  resumeContentSchema.safeParse(document) as z.SafeParseReturnType<unknown, ResumeContent>;
+
+/** A blank resume at the current schema version. */
+export const createEmptyResumeContent = (): ResumeContent => {
+  const result = validateResumeContent({ schemaVersion: RESUME_SCHEMA_VERSION });
+  if (!result.success) throw result.error;
+  return result.data;
+};
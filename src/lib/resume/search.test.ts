@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { getResumeSearchText, matchesSearchQuery } from "./search";
+import { createEmptyResumeContent, type ResumeContent } from "./schema";
+
+const resume: ResumeContent = {
+  ...createEmptyResumeContent(),
+  personalInfo: { fullName: "Jane Doe", email: "jane@example.com", phone: "", location: "Berlin", summary: "" },
+  experience: [
+    { id: "e1", company: "Northwind", position: "Backend Engineer", startDate: "2020-01", endDate: "", description: "Built APIs" },
+  ],
+  customSections: [
+    { id: "c1", title: "Languages", kind: "list", preset: "languages", entries: [], items: ["German (Fluent)"] },
+  ],
+  skills: ["TypeScript"],
+  sectionOrder: ["skills", "experience"],
+  design: { primaryColor: "#1f2937", fonts: "serif", margins: "narrow" },
+  extraSections: { references: [{ name: "Sam Smith" }] },
+};
+
+describe("getResumeSearchText", () => {
+  const text = getResumeSearchText("Platform Role", resume);
+
+  it("includes the title and every visible field, lowercased", () => {
+    for (const value of ["platform role", "jane doe", "berlin", "northwind", "built apis", "languages", "german (fluent)", "typescript"]) {
+      expect(text).toContain(value);
+    }
+  });
+
+  it("leaves out ids, structure and design", () => {
+    for (const value of ["e1", "c1", "list", "skills", "#1f2937", "serif", "narrow", "sam smith"]) {
+      expect(text).not.toContain(value);
+    }
+  });
+});
+
+describe("matchesSearchQuery", () => {
+  const text = getResumeSearchText("Platform Role", resume);
+
+  it("matches every word in any order, ignoring case and spacing", () => {
+    expect(matchesSearchQuery(text, "  TypeScript   northwind ")).toBe(true);
+    expect(matchesSearchQuery(text, "typescript rust")).toBe(false);
+  });
+
+  it("matches everything for an empty query", () => {
+    expect(matchesSearchQuery(text, "   ")).toBe(true);
+  });
+
+  it("does not match design settings", () => {
+    expect(matchesSearchQuery(text, "serif")).toBe(false);
+    expect(matchesSearchQuery(text, "#1f2937")).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import type { ResumeContent } from "./schema";
+
+// Keys that describe a section's structure rather than text on the page.
+const HIDDEN_KEYS = new Set(["id", "kind", "preset"]);
+
+const collectText = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectText);
+  if (value && typeof value === "object") {
+    return Object.entries(value)
+      .filter(([key]) => !HIDDEN_KEYS.has(key))
+      .flatMap(([, item]) => collectText(item));
+  }
+  return [];
+};
+
+/**
+ * The text a resume shows, lowercased, for matching search queries. Design
+ * overrides and imported sections the builder does not render are left out.
+ */
+export const getResumeSearchText = (title: string, content: ResumeContent): string => {
+  const { personalInfo, experience, education, projects, certifications, awards, customSections, skills } = content;
+  const sections = [personalInfo, experience, education, projects, certifications, awards, customSections, skills];
+  return [title, ...collectText(sections)].join("\n").toLowerCase();
+};
+
+/** Whether the text contains every word of the query, in any order. */
+export const matchesSearchQuery = (searchText: string, query: string): boolean =>
+  query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => searchText.includes(term));
+
+export type ResumeSort = "updated" | "created" | "title" | "template";
+
+/** What the Dashboard's filter bar narrows the resume list to. */
+export interface ResumeFilters {
+  query: string;
+  sort: ResumeSort;
+  /** Null shows every folder. */
+  folderId: string | null;
+  /** Resumes must carry all of these. */
+  tags: string[];
+}
+
+export const defaultResumeFilters: ResumeFilters = {
+  query: "",
+  sort: "updated",
+  folderId: null,
+  tags: [],
+};
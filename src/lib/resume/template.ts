@@ -0,0 +1,171 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+
+/**
+ * Version of the `resume_templates.template_data` format. Rows without a
+ * `version` use the original `{ layout, colors }` shape and are expanded from
+ * the matching legacy layout.
+ */
+export const TEMPLATE_FORMAT_VERSION = 1;
+
+// The built-in section keys, as in `SECTION_ORDER`.
+const SECTIONS = ["summary", "experience", "projects", "education", "certifications", "awards", "skills"] as const;
+const FONTS = ["serif", "sans", "display"] as const;
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i);
+
+export const templateDataSchema = z.object({
+  version: z.literal(TEMPLATE_FORMAT_VERSION),
+  colors: z.object({ primary: hexColor, secondary: hexColor }),
+  typography: z.object({
+    headingFont: z.enum(FONTS),
+    bodyFont: z.enum(FONTS),
+    size: z.number().min(0.8).max(1.2).default(1),
+    leading: z.number().min(0.8).max(1.3).default(1),
+  }),
+  regions: z.object({
+    columns: z.enum(["single", "sidebar-left", "sidebar-right"]),
+    sidebar: z.array(z.enum(SECTIONS)).default([]),
+    sidebarFill: z.enum(["gradient", "tint"]).default("tint"),
+  }),
+  hiddenSections: z.array(z.enum(SECTIONS)).default([]),
+  slots: z.object({
+    header: z.enum(["centered", "split", "banner", "stacked"]),
+    heading: z.enum(["rule", "caps", "bar", "underline", "pill"]),
+    list: z.enum(["chips", "list", "inline"]),
+    dates: z.enum(["right", "left", "below"]),
+  }),
+});
+
+export type TemplateFont = (typeof FONTS)[number];
+export type TemplateSection = (typeof SECTIONS)[number];
+
+/**
+ * A template as data: where sections go, how text is set and which variant of
+ * each building block is drawn. Every renderer interprets it the same way, so
+ * adding a template needs no code. Declared explicitly for the same reason as
+ * `ResumeContent`.
+ */
+export interface TemplateData {
+  version: typeof TEMPLATE_FORMAT_VERSION;
+  /** `#rrggbb` accent colors. */
+  colors: {
+    primary: string;
+    secondary: string;
+  };
+  typography: {
+    headingFont: TemplateFont;
+    bodyFont: TemplateFont;
+    /** Multiplies every font size. */
+    size: number;
+    /** Multiplies the line height. */
+    leading: number;
+  };
+  regions: {
+    columns: "single" | "sidebar-left" | "sidebar-right";
+    /** Sections placed in the sidebar of two-column templates. */
+    sidebar: TemplateSection[];
+    sidebarFill: "gradient" | "tint";
+  };
+  /** Built-in sections the template leaves out, even when they have content. */
+  hiddenSections: TemplateSection[];
+  /** The variant drawn for each building block of the page. */
+  slots: {
+    header: "centered" | "split" | "banner" | "stacked";
+    heading: "rule" | "caps" | "bar" | "underline" | "pill";
+    /** Skills and list sections. */
+    list: "chips" | "list" | "inline";
+    /** Where entry dates sit relative to the title. */
+    dates: "right" | "left" | "below";
+  };
+}
+
+type TemplateLayout = Omit<TemplateData, "version" | "colors">;
+
+const singleFont = (font: TemplateFont): TemplateData["typography"] => ({
+  headingFont: font,
+  bodyFont: font,
+  size: 1,
+  leading: 1,
+});
+
+/** The layouts of the original format, by their `layout` name. */
+const LEGACY_LAYOUTS: Record<string, TemplateLayout> = {
+  executive: {
+    typography: singleFont("serif"),
+    regions: { columns: "single", sidebar: [], sidebarFill: "tint" },
+    hiddenSections: [],
+    slots: { header: "centered", heading: "rule", list: "inline", dates: "right" },
+  },
+  creative: {
+    typography: singleFont("sans"),
+    regions: { columns: "sidebar-left", sidebar: ["skills", "education", "certifications"], sidebarFill: "gradient" },
+    hiddenSections: [],
+    slots: { header: "stacked", heading: "pill", list: "chips", dates: "below" },
+  },
+  modern: {
+    typography: singleFont("sans"),
+    regions: { columns: "sidebar-right", sidebar: ["skills", "education", "certifications"], sidebarFill: "tint" },
+    hiddenSections: [],
+    slots: { header: "banner", heading: "underline", list: "list", dates: "right" },
+  },
+  minimal: {
+    typography: singleFont("sans"),
+    regions: { columns: "single", sidebar: [], sidebarFill: "tint" },
+    hiddenSections: [],
+    slots: { header: "stacked", heading: "caps", list: "inline", dates: "left" },
+  },
+  professional: {
+    typography: singleFont("sans"),
+    regions: { columns: "single", sidebar: [], sidebarFill: "tint" },
+    hiddenSections: [],
+    slots: { header: "split", heading: "bar", list: "chips", dates: "right" },
+  },
+  artistic: {
+    typography: singleFont("display"),
+    regions: { columns: "sidebar-right", sidebar: ["summary", "skills"], sidebarFill: "tint" },
+    hiddenSections: [],
+    slots: { header: "centered", heading: "pill", list: "chips", dates: "below" },
+  },
+};
+
+export const DEFAULT_TEMPLATE_DATA: TemplateData = {
+  version: TEMPLATE_FORMAT_VERSION,
+  colors: {
+    primary: "#10b981",
+    secondary: "#14b8a6",
+  },
+  ...LEGACY_LAYOUTS.minimal,
+};
+
+/** Validates a template definition, filling in defaults for optional tokens. */
+export const validateTemplateData = (data: unknown) =>
+  templateDataSchema.safeParse(data) as z.SafeParseReturnType<unknown, TemplateData>;
+
+/**
+ * Reads the loosely typed `resume_templates.template_data` column, falling back
+ * to the Modern Minimal look for anything missing or malformed.
+ */
+export const parseTemplateData = (data: Json | null | undefined): TemplateData => {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return DEFAULT_TEMPLATE_DATA;
+  }
+
+  if ("version" in data) {
+    const result = validateTemplateData(data);
+    return result.success ? result.data : DEFAULT_TEMPLATE_DATA;
+  }
+
+  const colors = data.colors && typeof data.colors === "object" && !Array.isArray(data.colors)
+    ? data.colors
+    : {};
+  const layout = typeof data.layout === "string" ? LEGACY_LAYOUTS[data.layout] : undefined;
+
+  return {
+    ...DEFAULT_TEMPLATE_DATA,
+    ...layout,
+    colors: {
+      primary: typeof colors.primary === "string" ? colors.primary : DEFAULT_TEMPLATE_DATA.colors.primary,
+      secondary: typeof colors.secondary === "string" ? colors.secondary : DEFAULT_TEMPLATE_DATA.colors.secondary,
+    },
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { getMasterUpdates, pullMasterUpdates } from "./variants";
+import { createEmptyResumeContent, type ExperienceEntry, type ResumeContent } from "./schema";
+
+const job = (id: string, fields: Partial<ExperienceEntry> = {}): ExperienceEntry => ({
+  id,
+  company: `Company ${id}`,
+  position: "Engineer",
+  startDate: "2020-01",
+  endDate: "",
+  description: "",
+  ...fields,
+});
+
+const resume = (changes: Partial<ResumeContent>): ResumeContent => ({ ...createEmptyResumeContent(), ...changes });
+
+// The master gained a skill, a new job and an edit to one the variant reworded.
+const base = resume({ experience: [job("a"), job("b")], skills: ["SQL"] });
+const variant = resume({ experience: [job("a", { position: "Backend Engineer" }), job("b")], skills: ["SQL"] });
+const master = resume({
+  experience: [job("a", { position: "Senior Engineer" }), job("b"), job("c")],
+  skills: ["SQL", "Go"],
+});
+
+describe("getMasterUpdates", () => {
+  it("lists master changes, flagging the ones the variant also made", () => {
+    expect(getMasterUpdates(base, variant, master).map((update) => [update.key, update.conflict])).toEqual([
+      ["experience:c", false],
+      ["skills", false],
+      ["experience:a.position", true],
+    ]);
+  });
+
+  it("is empty once the variant is in sync", () => {
+    expect(getMasterUpdates(master, variant, master)).toEqual([]);
+  });
+});
+
+describe("pullMasterUpdates", () => {
+  it("applies only the selected updates", () => {
+    const { content } = pullMasterUpdates(base, variant, master, ["skills"]);
+
+    expect(content.skills).toEqual(["SQL", "Go"]);
+    expect(content.experience).toEqual(variant.experience);
+  });
+
+  it("replaces the variant's version of a selected conflict", () => {
+    const { content } = pullMasterUpdates(base, variant, master, ["experience:a.position", "experience:c"]);
+
+    expect(content.experience).toEqual([job("a", { position: "Senior Engineer" }), job("b"), job("c")]);
+    expect(content.skills).toEqual(["SQL"]);
+  });
+
+  it("offers skipped updates again after a pull", () => {
+    const pulled = pullMasterUpdates(base, variant, master, ["skills"]);
+
+    expect(getMasterUpdates(pulled.base, pulled.content, master).map((update) => update.key)).toEqual([
+      "experience:c",
+      "experience:a.position",
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+import type { ResumeContent } from "./schema";
+import { mergeResumeContent, type MergeChange } from "./merge";
+
+/** A change made to the master since the variant last synced with it. */
+export interface MasterUpdate extends MergeChange {
+  /** The variant changed the same field; pulling replaces its version. */
+  conflict: boolean;
+}
+
+/**
+ * What changed in the master since `base`, the master content the variant
+ * was created from or last pulled. `local` is the variant's value of each
+ * field and `remote` the master's.
+ */
+export const getMasterUpdates = (base: ResumeContent, variant: ResumeContent, master: ResumeContent): MasterUpdate[] => {
+  const { incoming, conflicts } = mergeResumeContent(base, variant, master);
+  return [
+    ...incoming.map((change) => ({ ...change, conflict: false })),
+    ...conflicts.map((change) => ({ ...change, conflict: true })),
+  ];
+};
+
+/**
+ * Applies the chosen master updates to the variant. The returned `base`
+ * only advances for the pulled fields, so skipped updates are offered again.
+ */
+export const pullMasterUpdates = (
+  base: ResumeContent,
+  variant: ResumeContent,
+  master: ResumeContent,
+  keys: string[]
+) => {
+  const selected = new Set(keys);
+  const accept = (key: string) => selected.has(key);
+  const choices = Object.fromEntries(keys.map((key) => [key, "remote" as const]));
+
+  return {
+    content: mergeResumeContent(base, variant, master, choices, accept).merged,
+    base: mergeResumeContent(base, base, master, {}, accept).merged,
+  };
+};
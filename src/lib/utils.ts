@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/** A copy of `items` with `item` at `index`, or at the end if the list has since shrunk. */
+export function insertAt<T>(items: T[], index: number, item: T) {
+  return [...items.slice(0, index), item, ...items.slice(index)];
+}
@@ -1,16 +1,28 @@
-import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef, type FocusEvent } from "react";
+import { useParams, useNavigate, useBlocker } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { 
   Save, 
   Eye, 
   Download, 
+  FileText,
+  FileType,
+  FileJson,
   Plus, 
   Trash2, 
   ArrowLeft, 
@@ -18,36 +30,78 @@ import {
   User,
   Briefcase,
   GraduationCap,
-  Award
+  FolderGit2,
+  BadgeCheck,
+  Trophy,
+  AlertTriangle,
+  LayoutList,
+  Award,
+  Undo2,
+  Redo2,
+  PanelRightOpen,
+  PanelRightClose,
+  Paintbrush
 } from "lucide-react";
+import TagInput from "@/components/TagInput";
+import SortableList from "@/components/builder/SortableList";
+import CustomSectionsEditor, { AddCustomSectionMenu } from "@/components/builder/CustomSectionsEditor";
+import SectionOrderDialog from "@/components/builder/SectionOrderDialog";
+import SaveStatusIndicator from "@/components/builder/SaveStatusIndicator";
+import UnsavedChangesDialog from "@/components/builder/UnsavedChangesDialog";
+import ResumeConflictDialog from "@/components/builder/ResumeConflictDialog";
+import RevisionHistorySheet from "@/components/builder/RevisionHistorySheet";
+import VariantSyncSheet from "@/components/builder/VariantSyncSheet";
+import LivePreview, { type PreviewTarget } from "@/components/builder/LivePreview";
+import { getRenderedItemIndex, getStoredItemIndex, type SectionKey } from "@/components/resume/layouts";
+import TemplatePicker, { type PickedTemplate } from "@/components/builder/TemplatePicker";
+import DesignEditor from "@/components/builder/DesignEditor";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAutosave } from "@/hooks/useAutosave";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useListIds } from "@/hooks/useListIds";
+import { useUndoableState } from "@/hooks/useUndoableState";
+import { useResumeTemplate } from "@/hooks/useResumeTemplate";
+import { saveResumeThumbnail } from "@/hooks/useResumeThumbnails";
+import { exportResumeDocx } from "@/lib/export/docx";
+import { exportJsonResume } from "@/lib/export/jsonResume";
+import { exportResumePdf } from "@/lib/export/pdf";
+import {
+  createEmptyResumeContent,
+  isExpired,
+  mergeResumeContent,
+  mergeResumeDrafts,
+  parseResumeContent,
+  serializeResumeContent,
+  type AwardEntry,
+  type CertificationEntry,
+  type MergeConflict,
+  type MergeSide,
+  type ProjectEntry,
+  type ResumeContent,
+  type ResumeDraft,
+} from "@/lib/resume";
+import { cn, insertAt } from "@/lib/utils";
 
-interface ResumeContent {
-  personalInfo: {
-    fullName: string;
-    email: string;
-    phone: string;
-    location: string;
-    summary: string;
-  };
-  experience: Array<{
-    id: string;
-    company: string;
-    position: string;
-    startDate: string;
-    endDate: string;
-    description: string;
-  }>;
-  education: Array<{
-    id: string;
-    school: string;
-    degree: string;
-    startDate: string;
-    endDate: string;
-    description: string;
-  }>;
-  skills: string[];
+const LIVE_PREVIEW_KEY = "builder-live-preview";
+
+/** How long saving has to settle before the Dashboard thumbnail is rendered again. */
+const THUMBNAIL_DELAY = 10000;
+
+type EntryListKey = "experience" | "projects" | "education" | "certifications" | "awards";
+
+/** The row was saved elsewhere since this editor last loaded or saved it. */
+class ResumeConflictError extends Error {
+  constructor() {
+    super("The resume was changed in another session");
+  }
+}
+
+interface ResumeConflict {
+  local: ResumeDraft;
+  remote: ResumeDraft;
+  version: string;
+  conflicts: MergeConflict[];
 }
 
 const Builder = () => {
@@ -55,20 +109,33 @@ const Builder = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
-  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [title, setTitle] = useState("Untitled Resume");
-  const [content, setContent] = useState<ResumeContent>({
-    personalInfo: {
-      fullName: "",
-      email: "",
-      phone: "",
-      location: "",
-      summary: ""
-    },
-    experience: [],
-    education: [],
-    skills: []
-  });
+  const [templateId, setTemplateId] = useState<string>();
+  const { template, name: templateName, showTemplate } = useResumeTemplate(templateId);
+  const {
+    state: content,
+    set: setContent,
+    reset: resetContent,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<ResumeContent>(createEmptyResumeContent);
+  // The row as last loaded or saved; `version` is its `updated_at`.
+  const synced = useRef<{ version: string; draft: ResumeDraft } | null>(null);
+  const [conflict, setConflict] = useState<ResumeConflict | null>(null);
+  const hadConflict = useRef(false);
+  // Set for variants: the master and the master content last synced with.
+  const [variantOf, setVariantOf] = useState<{ parentId: string; base: ResumeContent | null } | null>(null);
+  const isMobile = useIsMobile();
+  const [showLivePreview, setShowLivePreview] = useState(() => localStorage.getItem(LIVE_PREVIEW_KEY) !== "off");
+  const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
+  const [activeTab, setActiveTab] = useState("personal");
+  const formRef = useRef<HTMLDivElement>(null);
+  const skillIds = useListIds(content.skills.length);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const isPreviewVisible = showLivePreview && !isMobile;
 
   useEffect(() => {
     if (id) {
@@ -76,29 +143,57 @@ const Builder = () => {
     }
   }, [id]);
 
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+
+      // Text fields whose edits aren't in the history, like the title, keep the browser's undo.
+      const target = event.target as HTMLElement;
+      const isTracked = formRef.current?.contains(target) || previewRef.current?.contains(target);
+      if (target.matches("input, textarea, [contenteditable]") && !isTracked) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) redo();
+        else undo();
+      } else if (key === "y" && !event.shiftKey) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
   const fetchResume = async () => {
     try {
       const { data, error } = await supabase
         .from("resumes")
         .select("*")
         .eq("id", id)
+        .is("deleted_at", null)
         .single();
 
       if (error) throw error;
       
+      // Variants of a trashed master have nothing to sync with until it is restored.
+      const { data: parent } = data.parent_id
+        ? await supabase.from("resumes").select("id").eq("id", data.parent_id).is("deleted_at", null).maybeSingle()
+        : { data: null };
+
+      const loaded = parseResumeContent(data.content);
       setTitle(data.title);
-      setContent((data.content as unknown as ResumeContent) || {
-        personalInfo: {
-          fullName: "",
-          email: "",
-          phone: "",
-          location: "",
-          summary: ""
-        },
-        experience: [],
-        education: [],
-        skills: []
-      });
+      setTemplateId(data.template_id);
+      resetContent(loaded);
+      synced.current = { version: data.updated_at, draft: { title: data.title, content: loaded } };
+      setVariantOf(parent
+        ? {
+            parentId: data.parent_id,
+            base: data.parent_synced_content ? parseResumeContent(data.parent_synced_content) : null,
+          }
+        : null);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -111,35 +206,318 @@ const Builder = () => {
     }
   };
 
+  /** Folds a merged draft into the editor, keeping edits made since `draft` was saved. */
+  const applyMerge = (draft: ResumeDraft, merged: ResumeDraft) => {
+    setTitle((current) => (current === draft.title ? merged.title : current));
+    setContent((current) => mergeResumeContent(draft.content, current, merged.content).merged);
+  };
+
+  // Saves only if nobody else saved since our last sync. Otherwise their
+  // changes are merged in, and overlapping edits go to the conflict dialog.
+  const persistResume = async (draft: ResumeDraft): Promise<void> => {
+    const { data, error } = await supabase
+      .from("resumes")
+      .update({
+        title: draft.title,
+        content: serializeResumeContent(draft.content)
+      })
+      .eq("id", id)
+      .eq("updated_at", synced.current.version)
+      .select("updated_at")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) {
+      synced.current = { version: data.updated_at, draft };
+      return;
+    }
+
+    const { data: latest, error: fetchError } = await supabase
+      .from("resumes")
+      .select("title, content, updated_at")
+      .eq("id", id)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const remote = { title: latest.title, content: parseResumeContent(latest.content) };
+    const { merged, conflicts } = mergeResumeDrafts(synced.current.draft, draft, remote);
+
+    if (conflicts.length > 0) {
+      setConflict({ local: draft, remote, version: latest.updated_at, conflicts });
+      hadConflict.current = true;
+      throw new ResumeConflictError();
+    }
+
+    synced.current = { version: latest.updated_at, draft: remote };
+    applyMerge(draft, merged);
+    return persistResume(merged);
+  };
+
+  const resolveConflict = (choices: Record<string, MergeSide>) => {
+    if (!conflict) return;
+
+    const { merged } = mergeResumeDrafts(synced.current.draft, conflict.local, conflict.remote, choices);
+    synced.current = { version: conflict.version, draft: conflict.remote };
+    applyMerge(conflict.local, merged);
+    setConflict(null);
+  };
+
+  const autosave = useAutosave({
+    value: { title, content },
+    save: persistResume,
+    // Paused while a conflict is open; the merged result is saved afterwards.
+    enabled: !isLoading && !conflict,
+    shouldRetry: (error) => !(error instanceof ResumeConflictError),
+  });
+
+  // Thumbnails are rendered once saving settles, or on leaving, not on every autosave.
+  const pendingThumbnail = useRef<() => void>();
+  useEffect(() => {
+    if (!autosave.lastSavedAt) return;
+
+    const draft = synced.current.draft;
+    const refresh = () => {
+      pendingThumbnail.current = undefined;
+      saveResumeThumbnail(id, draft, template).catch((error) => console.error("Error saving thumbnail:", error));
+    };
+    pendingThumbnail.current = refresh;
+    const timer = setTimeout(refresh, THUMBNAIL_DELAY);
+    return () => clearTimeout(timer);
+  }, [autosave.lastSavedAt, id, template]);
+
+  useEffect(() => () => pendingThumbnail.current?.(), []);
+
+  const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+    autosave.hasUnsavedChanges && currentLocation.pathname !== nextLocation.pathname
+  );
+
   const saveResume = async () => {
-    setIsSaving(true);
+    hadConflict.current = false;
+    const saved = await autosave.saveNow();
+    // Conflicts open their own dialog instead.
+    if (!saved && !hadConflict.current) {
+      toast({
+        title: "Error",
+        description: "Failed to save resume",
+        variant: "destructive",
+      });
+    }
+    return saved;
+  };
+
+  // The template isn't part of the draft, so it's saved on its own. If nobody
+  // saved in between, the new row version is adopted; otherwise the next
+  // autosave merges with their changes as usual.
+  const changeTemplate = async (picked: PickedTemplate) => {
+    if (picked.id === templateId) return;
+
+    const previous = { id: templateId, name: templateName, template };
+    setTemplateId(picked.id);
+    showTemplate(picked);
+
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
+        .from("resumes")
+        .update({ template_id: picked.id })
+        .eq("id", id)
+        .eq("updated_at", synced.current.version)
+        .select("updated_at")
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        synced.current = { ...synced.current, version: data.updated_at };
+        return;
+      }
+
+      const { error: retryError } = await supabase
+        .from("resumes")
+        .update({ template_id: picked.id })
+        .eq("id", id);
+
+      if (retryError) throw retryError;
+    } catch (error) {
+      setTemplateId(previous.id);
+      showTemplate(previous);
+      toast({
+        title: "Error",
+        description: "Failed to change template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const restoreRevision = async (revisionId: string) => {
+    // Save pending edits first so the state before the restore is kept as a revision.
+    if (!(await saveResume())) return;
+
+    try {
+      const { data, error } = await supabase.rpc("restore_resume_revision", { revision_id: revisionId });
+
+      if (error) throw error;
+
+      const restored = parseResumeContent(data.content);
+      synced.current = { version: data.updated_at, draft: { title: data.title, content: restored } };
+      setTitle(data.title);
+      setContent(restored);
+      toast({
+        title: "Revision restored",
+        description: "Your previous version is still in the history.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to restore revision",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Saves the pulled content together with the new sync point, so later
+  // pulls only offer master changes made after this one.
+  const pullFromMaster = async (pulled: ResumeContent, base: ResumeContent) => {
+    if (!(await saveResume())) return;
+
+    try {
+      const { data, error } = await supabase
         .from("resumes")
         .update({
-          title,
-          content: content as any,
-          updated_at: new Date().toISOString()
+          content: serializeResumeContent(pulled),
+          parent_synced_content: serializeResumeContent(base)
         })
-        .eq("id", id);
+        .eq("id", id)
+        .eq("updated_at", synced.current.version)
+        .select("updated_at")
+        .maybeSingle();
 
       if (error) throw error;
-      
+      if (!data) throw new ResumeConflictError();
+
+      synced.current = { version: data.updated_at, draft: { title, content: pulled } };
+      setContent(pulled);
+      setVariantOf({ parentId: variantOf.parentId, base });
       toast({
-        title: "Resume saved",
-        description: "Your changes have been saved successfully.",
+        title: "Master changes pulled",
+        description: "The selected updates were applied to this variant.",
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to save resume",
+        description: error instanceof ResumeConflictError
+          ? "This resume was changed in another session. Reload it and try again."
+          : "Failed to pull master changes",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    localStorage.setItem(LIVE_PREVIEW_KEY, showLivePreview ? "on" : "off");
+  }, [showLivePreview]);
+
+  // Follows focus through the form, whose sections, entries and inputs are
+  // tagged like their counterparts in the rendered document. Form list items
+  // are tagged by where they are stored, which skips no empty items.
+  const itemOf = (element: HTMLElement, section: string) => {
+    const item = element.closest<HTMLElement>("[data-item]")?.dataset.item;
+    if (item === undefined) return undefined;
+    const rendered = getRenderedItemIndex(content, section as SectionKey, Number(item));
+    return rendered < 0 ? undefined : rendered;
+  };
+
+  const handleFormFocus = (event: FocusEvent<HTMLElement>) => {
+    const target = event.target as HTMLElement;
+    const section = target.closest<HTMLElement>("[data-section]")?.dataset.section;
+    if (!section) return;
+
+    setPreviewTarget({
+      section,
+      entry: target.closest<HTMLElement>("[data-entry]")?.dataset.entry,
+      field: target.closest<HTMLElement>("[data-field]")?.dataset.field,
+      item: itemOf(target, section),
+    });
+  };
+
+  // Clicking the preview opens the form tab behind it, scrolled to the field.
+  const showInForm = (target: PreviewTarget) => {
+    setPreviewTarget(target);
+    setActiveTab(
+      target.section === "summary" ? "personal" : target.section.startsWith("custom:") ? "custom" : target.section
+    );
+
+    requestAnimationFrame(() => {
+      const section = formRef.current?.querySelector<HTMLElement>(`[data-section="${CSS.escape(target.section)}"]`);
+      const entry = target.entry && section?.querySelector<HTMLElement>(`[data-entry="${CSS.escape(target.entry)}"]`);
+      const field = target.field && (entry || section)?.querySelector<HTMLElement>(`[data-field="${CSS.escape(target.field)}"]`);
+      const stored = target.item === undefined ? -1 : getStoredItemIndex(content, target.section as SectionKey, target.item);
+      const item = stored >= 0 && section?.querySelector<HTMLElement>(`[data-item="${stored}"]`);
+      (item || field || entry || section)?.scrollIntoView({ block: "center", behavior: "smooth" });
+    });
+  };
+
+  const exportResume = async (format: "pdf" | "docx") => {
+    setIsExporting(true);
+    try {
+      // Export the editor state so unsaved changes are included.
+      if (format === "pdf") {
+        await exportResumePdf(content, template, title);
+      } else {
+        await exportResumeDocx(content, template, title);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to export ${format === "pdf" ? "PDF" : "Word document"}`,
         variant: "destructive",
       });
     } finally {
-      setIsSaving(false);
+      setIsExporting(false);
     }
   };
 
+  /**
+   * Applies a delete and offers to put the removed part back. `restore`
+   * re-inserts it into the content as it is by then, so undo works even
+   * after further edits.
+   */
+  const removeWithUndo = (
+    label: string,
+    remaining: ResumeContent,
+    restore: (current: ResumeContent) => ResumeContent
+  ) => {
+    setContent(remaining);
+    let undone = false;
+    toast({
+      title: `${label} removed`,
+      action: (
+        <ToastAction
+          altText="Undo delete"
+          onClick={() => {
+            if (undone) return;
+            undone = true;
+            setContent(restore);
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const removeEntry = (key: EntryListKey, id: string, label: string) => {
+    const entries: { id: string }[] = content[key];
+    const index = entries.findIndex((entry) => entry.id === id);
+    if (index === -1) return;
+
+    const removed = entries[index];
+    removeWithUndo(label, { ...content, [key]: entries.filter((entry) => entry.id !== id) }, (current) => {
+      const remaining: { id: string }[] = current[key];
+      if (remaining.some((entry) => entry.id === id)) return current;
+      return { ...current, [key]: insertAt(remaining, index, removed) };
+    });
+  };
+
   const addExperience = () => {
     const newExp = {
       id: crypto.randomUUID(),
@@ -164,13 +542,37 @@ const Builder = () => {
     });
   };
 
-  const removeExperience = (id: string) => {
+  const removeExperience = (id: string) => removeEntry("experience", id, "Experience");
+
+  const addProject = () => {
+    const newProject: ProjectEntry = {
+      id: crypto.randomUUID(),
+      name: "",
+      role: "",
+      url: "",
+      repository: "",
+      technologies: [],
+      startDate: "",
+      endDate: "",
+      description: ""
+    };
+    setContent({
+      ...content,
+      projects: [...content.projects, newProject]
+    });
+  };
+
+  const updateProject = <K extends keyof ProjectEntry>(id: string, field: K, value: ProjectEntry[K]) => {
     setContent({
       ...content,
-      experience: content.experience.filter(exp => exp.id !== id)
+      projects: content.projects.map(project =>
+        project.id === id ? { ...project, [field]: value } : project
+      )
     });
   };
 
+  const removeProject = (id: string) => removeEntry("projects", id, "Project");
+
   const addEducation = () => {
     const newEdu = {
       id: crypto.randomUUID(),
@@ -195,13 +597,60 @@ const Builder = () => {
     });
   };
 
-  const removeEducation = (id: string) => {
+  const removeEducation = (id: string) => removeEntry("education", id, "Education");
+
+  const addCertification = () => {
+    const newCertification: CertificationEntry = {
+      id: crypto.randomUUID(),
+      name: "",
+      issuer: "",
+      credentialId: "",
+      issueDate: "",
+      expiryDate: "",
+      url: ""
+    };
+    setContent({
+      ...content,
+      certifications: [...content.certifications, newCertification]
+    });
+  };
+
+  const updateCertification = (id: string, field: keyof CertificationEntry, value: string) => {
+    setContent({
+      ...content,
+      certifications: content.certifications.map(cert =>
+        cert.id === id ? { ...cert, [field]: value } : cert
+      )
+    });
+  };
+
+  const removeCertification = (id: string) => removeEntry("certifications", id, "Certification");
+
+  const addAward = () => {
+    const newAward: AwardEntry = {
+      id: crypto.randomUUID(),
+      title: "",
+      awarder: "",
+      date: "",
+      description: ""
+    };
+    setContent({
+      ...content,
+      awards: [...content.awards, newAward]
+    });
+  };
+
+  const updateAward = (id: string, field: keyof AwardEntry, value: string) => {
     setContent({
       ...content,
-      education: content.education.filter(edu => edu.id !== id)
+      awards: content.awards.map(award =>
+        award.id === id ? { ...award, [field]: value } : award
+      )
     });
   };
 
+  const removeAward = (id: string) => removeEntry("awards", id, "Award");
+
   const addSkill = () => {
     setContent({
       ...content,
@@ -219,12 +668,20 @@ const Builder = () => {
   };
 
   const removeSkill = (index: number) => {
-    setContent({
-      ...content,
-      skills: content.skills.filter((_, i) => i !== index)
-    });
+    const removed = content.skills[index];
+    const remaining = { ...content, skills: content.skills.filter((_, i) => i !== index) };
+    skillIds.current.splice(index, 1);
+
+    // Nothing is lost by removing an empty skill.
+    if (!removed.trim()) {
+      setContent(remaining);
+      return;
+    }
+    removeWithUndo(`"${removed}"`, remaining, (current) => ({ ...current, skills: insertAt(current.skills, index, removed) }));
   };
 
+  const expiredCertifications = content.certifications.filter(cert => isExpired(cert.expiryDate)).length;
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -237,9 +694,9 @@ const Builder = () => {
   }
 
   return (
-    <div className="min-h-screen bg-background">
+    <div className="flex h-screen flex-col bg-background">
       {/* Header */}
-      <header className="border-b border-border bg-card sticky top-0 z-10">
+      <header className="border-b border-border bg-card">
         <div className="max-w-7xl mx-auto px-6 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
@@ -257,17 +714,72 @@ const Builder = () => {
             </div>
             
             <div className="flex items-center space-x-2">
+              {!isMobile && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowLivePreview(!showLivePreview)}
+                  aria-pressed={showLivePreview}
+                  title={showLivePreview ? "Hide the live preview" : "Show the live preview next to the form"}
+                >
+                  {showLivePreview ? <PanelRightClose className="w-4 h-4 mr-2" /> : <PanelRightOpen className="w-4 h-4 mr-2" />}
+                  Live
+                </Button>
+              )}
               <Button variant="ghost" size="sm" onClick={() => navigate(`/preview/${id}`)}>
                 <Eye className="w-4 h-4 mr-2" />
                 Preview
               </Button>
-              <Button variant="ghost" size="sm">
-                <Download className="w-4 h-4 mr-2" />
-                Export PDF
-              </Button>
-              <Button onClick={saveResume} disabled={isSaving}>
+              <div className="flex items-center">
+                <Button variant="ghost" size="sm" onClick={undo} disabled={!canUndo} aria-label="Undo" title="Undo (Ctrl+Z)">
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={redo} disabled={!canRedo} aria-label="Redo" title="Redo (Ctrl+Shift+Z)">
+                  <Redo2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <TemplatePicker templateId={templateId} template={template} content={content} onSelect={changeTemplate} />
+              <SectionOrderDialog content={content} onChange={setContent} />
+              <RevisionHistorySheet resumeId={id} current={{ title, content }} onRestore={restoreRevision} />
+              {variantOf && (
+                <VariantSyncSheet
+                  parentId={variantOf.parentId}
+                  base={variantOf.base}
+                  content={content}
+                  onPull={pullFromMaster}
+                />
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" disabled={isExporting}>
+                    <Download className="w-4 h-4 mr-2" />
+                    {isExporting ? "Exporting..." : "Export"}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => exportResume("pdf")}>
+                    <FileText className="w-4 h-4 mr-2" />
+                    PDF document
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportResume("docx")}>
+                    <FileType className="w-4 h-4 mr-2" />
+                    Word document (.docx)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportJsonResume(content, title)}>
+                    <FileJson className="w-4 h-4 mr-2" />
+                    JSON Resume (.json)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <SaveStatusIndicator
+                status={autosave.status}
+                lastSavedAt={autosave.lastSavedAt}
+                isRetrying={autosave.isRetrying}
+                onRetry={saveResume}
+              />
+              <Button onClick={saveResume} disabled={autosave.status === "saving"}>
                 <Save className="w-4 h-4 mr-2" />
-                {isSaving ? "Saving..." : "Save"}
+                Save
               </Button>
             </div>
           </div>
@@ -275,331 +787,828 @@ const Builder = () => {
       </header>
 
       {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-6 py-8">
-        <Tabs defaultValue="personal" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="personal" className="flex items-center">
-              <User className="w-4 h-4 mr-2" />
-              Personal Info
-            </TabsTrigger>
-            <TabsTrigger value="experience" className="flex items-center">
-              <Briefcase className="w-4 h-4 mr-2" />
-              Experience
-            </TabsTrigger>
-            <TabsTrigger value="education" className="flex items-center">
-              <GraduationCap className="w-4 h-4 mr-2" />
-              Education
-            </TabsTrigger>
-            <TabsTrigger value="skills" className="flex items-center">
-              <Award className="w-4 h-4 mr-2" />
-              Skills
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="personal" className="mt-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <User className="w-5 h-5 mr-2" />
-                  Personal Information
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="fullName">Full Name</Label>
-                    <Input
-                      id="fullName"
-                      value={content.personalInfo.fullName}
-                      onChange={(e) => setContent({
-                        ...content,
-                        personalInfo: { ...content.personalInfo, fullName: e.target.value }
-                      })}
-                      placeholder="John Doe"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="email">Email</Label>
-                    <Input
-                      id="email"
-                      type="email"
-                      value={content.personalInfo.email}
-                      onChange={(e) => setContent({
-                        ...content,
-                        personalInfo: { ...content.personalInfo, email: e.target.value }
-                      })}
-                      placeholder="john@example.com"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="phone">Phone</Label>
-                    <Input
-                      id="phone"
-                      value={content.personalInfo.phone}
-                      onChange={(e) => setContent({
-                        ...content,
-                        personalInfo: { ...content.personalInfo, phone: e.target.value }
-                      })}
-                      placeholder="+1 (555) 123-4567"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="location">Location</Label>
-                    <Input
-                      id="location"
-                      value={content.personalInfo.location}
-                      onChange={(e) => setContent({
-                        ...content,
-                        personalInfo: { ...content.personalInfo, location: e.target.value }
-                      })}
-                      placeholder="New York, NY"
+      <main className="min-h-0 flex-1">
+        <ResizablePanelGroup direction="horizontal" autoSaveId="builder-split">
+          <ResizablePanel id="form" order={1} defaultSize={55} minSize={35}>
+            <div ref={formRef} className="h-full overflow-y-auto" onFocusCapture={handleFormFocus}>
+              <div className="max-w-7xl mx-auto px-6 py-8">
+                <Tabs
+                  value={activeTab}
+                  className="w-full"
+                  onValueChange={(section) => {
+                    setActiveTab(section);
+                    setPreviewTarget({ section });
+                  }}
+                >
+                  <TabsList className={cn("grid w-full h-auto grid-cols-4", !isPreviewVisible && "lg:grid-cols-9")}>
+                    <TabsTrigger value="personal" className="flex items-center">
+                      <User className="w-4 h-4 mr-2" />
+                      Personal Info
+                    </TabsTrigger>
+                    <TabsTrigger value="experience" className="flex items-center">
+                      <Briefcase className="w-4 h-4 mr-2" />
+                      Experience
+                    </TabsTrigger>
+                    <TabsTrigger value="projects" className="flex items-center">
+                      <FolderGit2 className="w-4 h-4 mr-2" />
+                      Projects
+                    </TabsTrigger>
+                    <TabsTrigger value="education" className="flex items-center">
+                      <GraduationCap className="w-4 h-4 mr-2" />
+                      Education
+                    </TabsTrigger>
+                    <TabsTrigger value="certifications" className="flex items-center">
+                      <BadgeCheck className="w-4 h-4 mr-2" />
+                      Certifications
+                      {expiredCertifications > 0 && <AlertTriangle className="w-3.5 h-3.5 ml-1.5 text-destructive" />}
+                    </TabsTrigger>
+                    <TabsTrigger value="awards" className="flex items-center">
+                      <Trophy className="w-4 h-4 mr-2" />
+                      Awards
+                    </TabsTrigger>
+                    <TabsTrigger value="skills" className="flex items-center">
+                      <Award className="w-4 h-4 mr-2" />
+                      Skills
+                    </TabsTrigger>
+                    <TabsTrigger value="custom" className="flex items-center">
+                      <LayoutList className="w-4 h-4 mr-2" />
+                      More
+                    </TabsTrigger>
+                    <TabsTrigger value="design" className="flex items-center">
+                      <Paintbrush className="w-4 h-4 mr-2" />
+                      Design
+                    </TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="personal" data-section="personal" className="mt-6">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="flex items-center">
+                          <User className="w-5 h-5 mr-2" />
+                          Personal Information
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-6">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor="fullName">Full Name</Label>
+                            <Input
+                              id="fullName"
+                              data-field="fullName"
+                              value={content.personalInfo.fullName}
+                              onChange={(e) => setContent({
+                                ...content,
+                                personalInfo: { ...content.personalInfo, fullName: e.target.value }
+                              })}
+                              placeholder="John Doe"
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="email">Email</Label>
+                            <Input
+                              id="email"
+                              data-field="email"
+                              type="email"
+                              value={content.personalInfo.email}
+                              onChange={(e) => setContent({
+                                ...content,
+                                personalInfo: { ...content.personalInfo, email: e.target.value }
+                              })}
+                              placeholder="john@example.com"
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="phone">Phone</Label>
+                            <Input
+                              id="phone"
+                              data-field="phone"
+                              value={content.personalInfo.phone}
+                              onChange={(e) => setContent({
+                                ...content,
+                                personalInfo: { ...content.personalInfo, phone: e.target.value }
+                              })}
+                              placeholder="+1 (555) 123-4567"
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="location">Location</Label>
+                            <Input
+                              id="location"
+                              data-field="location"
+                              value={content.personalInfo.location}
+                              onChange={(e) => setContent({
+                                ...content,
+                                personalInfo: { ...content.personalInfo, location: e.target.value }
+                              })}
+                              placeholder="New York, NY"
+                            />
+                          </div>
+                        </div>
+                        <div data-section="summary">
+                          <Label htmlFor="summary">Professional Summary</Label>
+                          <Textarea
+                            id="summary"
+                            rows={4}
+                            value={content.personalInfo.summary}
+                            onChange={(e) => setContent({
+                              ...content,
+                              personalInfo: { ...content.personalInfo, summary: e.target.value }
+                            })}
+                            placeholder="Write a brief summary of your professional background and career objectives..."
+                          />
+                          <div className="mt-2">
+                            <Button variant="outline" size="sm">
+                              <Sparkles className="w-4 h-4 mr-2" />
+                              AI Suggest Content
+                            </Button>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="experience" data-section="experience" className="mt-6">
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="flex items-center">
+                            <Briefcase className="w-5 h-5 mr-2" />
+                            Work Experience
+                          </CardTitle>
+                          <Button onClick={addExperience}>
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Experience
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-6">
+                        <SortableList
+                          items={content.experience}
+                          getId={(exp) => exp.id}
+                          getLabel={(_, index) => `experience ${index + 1}`}
+                          onReorder={(experience) => setContent({ ...content, experience })}
+                          className="space-y-6"
+                        >
+                          {(exp, index, controls) => (
+                            <div data-entry={exp.id} className="border border-border rounded-lg p-4">
+                              <div className="flex items-center justify-between mb-4">
+                                <Badge variant="secondary">Experience {index + 1}</Badge>
+                                <div className="flex items-center">
+                                  {controls}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => removeExperience(exp.id)}
+                                    aria-label={`Delete experience ${index + 1}`}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              </div>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                  <Label>Company</Label>
+                                  <Input
+                                    value={exp.company}
+                                    data-field="company"
+                                    onChange={(e) => updateExperience(exp.id, "company", e.target.value)}
+                                    placeholder="Company Name"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Position</Label>
+                                  <Input
+                                    value={exp.position}
+                                    data-field="position"
+                                    onChange={(e) => updateExperience(exp.id, "position", e.target.value)}
+                                    placeholder="Job Title"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Start Date</Label>
+                                  <Input
+                                    type="month"
+                                    value={exp.startDate}
+                                    data-field="startDate"
+                                    onChange={(e) => updateExperience(exp.id, "startDate", e.target.value)}
+                                  />
+                                </div>
+                                <div>
+                                  <Label>End Date</Label>
+                                  <Input
+                                    type="month"
+                                    value={exp.endDate}
+                                    data-field="endDate"
+                                    onChange={(e) => updateExperience(exp.id, "endDate", e.target.value)}
+                                    placeholder="Leave empty if current"
+                                  />
+                                </div>
+                              </div>
+                              <div className="mt-4">
+                                <Label>Description</Label>
+                                <Textarea
+                                  rows={3}
+                                  value={exp.description}
+                                  data-field="description"
+                                  onChange={(e) => updateExperience(exp.id, "description", e.target.value)}
+                                  placeholder="Describe your responsibilities and achievements..."
+                                />
+                              </div>
+                            </div>
+                          )}
+                        </SortableList>
+                        {content.experience.length === 0 && (
+                          <div className="text-center py-8">
+                            <Briefcase className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                            <p className="text-muted-foreground mb-4">No work experience added yet</p>
+                            <Button onClick={addExperience}>
+                              <Plus className="w-4 h-4 mr-2" />
+                              Add Your First Experience
+                            </Button>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="projects" data-section="projects" className="mt-6">
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="flex items-center">
+                            <FolderGit2 className="w-5 h-5 mr-2" />
+                            Projects
+                          </CardTitle>
+                          <Button onClick={addProject}>
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Project
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-6">
+                        <SortableList
+                          items={content.projects}
+                          getId={(project) => project.id}
+                          getLabel={(_, index) => `project ${index + 1}`}
+                          onReorder={(projects) => setContent({ ...content, projects })}
+                          className="space-y-6"
+                        >
+                          {(project, index, controls) => (
+                            <div data-entry={project.id} className="border border-border rounded-lg p-4">
+                              <div className="flex items-center justify-between mb-4">
+                                <Badge variant="secondary">Project {index + 1}</Badge>
+                                <div className="flex items-center">
+                                  {controls}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => removeProject(project.id)}
+                                    aria-label={`Delete project ${index + 1}`}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              </div>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                  <Label>Project Name</Label>
+                                  <Input
+                                    value={project.name}
+                                    data-field="name"
+                                    onChange={(e) => updateProject(project.id, "name", e.target.value)}
+                                    placeholder="Open-source CLI"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Role</Label>
+                                  <Input
+                                    value={project.role}
+                                    data-field="role"
+                                    onChange={(e) => updateProject(project.id, "role", e.target.value)}
+                                    placeholder="Creator & Maintainer"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Project URL</Label>
+                                  <Input
+                                    type="url"
+                                    value={project.url}
+                                    data-field="url"
+                                    onChange={(e) => updateProject(project.id, "url", e.target.value)}
+                                    placeholder="https://example.com"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Repository</Label>
+                                  <Input
+                                    type="url"
+                                    value={project.repository}
+                                    data-field="repository"
+                                    onChange={(e) => updateProject(project.id, "repository", e.target.value)}
+                                    placeholder="https://github.com/you/project"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Start Date</Label>
+                                  <Input
+                                    type="month"
+                                    value={project.startDate}
+                                    data-field="startDate"
+                                    onChange={(e) => updateProject(project.id, "startDate", e.target.value)}
+                                  />
+                                </div>
+                                <div>
+                                  <Label>End Date</Label>
+                                  <Input
+                                    type="month"
+                                    value={project.endDate}
+                                    data-field="endDate"
+                                    onChange={(e) => updateProject(project.id, "endDate", e.target.value)}
+                                  />
+                                </div>
+                              </div>
+                              <div data-field="technologies" className="mt-4">
+                                <Label>Tech Stack</Label>
+                                <TagInput
+                                  value={project.technologies}
+                                  onChange={(technologies) => updateProject(project.id, "technologies", technologies)}
+                                  placeholder="Type a technology and press Enter"
+                                />
+                              </div>
+                              <div className="mt-4">
+                                <Label>Highlights</Label>
+                                <Textarea
+                                  rows={3}
+                                  value={project.description}
+                                  data-field="description"
+                                  onChange={(e) => updateProject(project.id, "description", e.target.value)}
+                                  placeholder={"- Built a plugin system used by 40 contributors\n- Cut build times by 60%"}
+                                />
+                              </div>
+                            </div>
+                          )}
+                        </SortableList>
+                        {content.projects.length === 0 && (
+                          <div className="text-center py-8">
+                            <FolderGit2 className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                            <p className="text-muted-foreground mb-4">No projects added yet</p>
+                            <Button onClick={addProject}>
+                              <Plus className="w-4 h-4 mr-2" />
+                              Add Your First Project
+                            </Button>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="education" data-section="education" className="mt-6">
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="flex items-center">
+                            <GraduationCap className="w-5 h-5 mr-2" />
+                            Education
+                          </CardTitle>
+                          <Button onClick={addEducation}>
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Education
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-6">
+                        <SortableList
+                          items={content.education}
+                          getId={(edu) => edu.id}
+                          getLabel={(_, index) => `education ${index + 1}`}
+                          onReorder={(education) => setContent({ ...content, education })}
+                          className="space-y-6"
+                        >
+                          {(edu, index, controls) => (
+                            <div data-entry={edu.id} className="border border-border rounded-lg p-4">
+                              <div className="flex items-center justify-between mb-4">
+                                <Badge variant="secondary">Education {index + 1}</Badge>
+                                <div className="flex items-center">
+                                  {controls}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => removeEducation(edu.id)}
+                                    aria-label={`Delete education ${index + 1}`}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              </div>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                  <Label>School/University</Label>
+                                  <Input
+                                    value={edu.school}
+                                    data-field="school"
+                                    onChange={(e) => updateEducation(edu.id, "school", e.target.value)}
+                                    placeholder="School Name"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Degree</Label>
+                                  <Input
+                                    value={edu.degree}
+                                    data-field="degree"
+                                    onChange={(e) => updateEducation(edu.id, "degree", e.target.value)}
+                                    placeholder="Bachelor of Science"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Start Date</Label>
+                                  <Input
+                                    type="month"
+                                    value={edu.startDate}
+                                    data-field="startDate"
+                                    onChange={(e) => updateEducation(edu.id, "startDate", e.target.value)}
+                                  />
+                                </div>
+                                <div>
+                                  <Label>End Date</Label>
+                                  <Input
+                                    type="month"
+                                    value={edu.endDate}
+                                    data-field="endDate"
+                                    onChange={(e) => updateEducation(edu.id, "endDate", e.target.value)}
+                                  />
+                                </div>
+                              </div>
+                              <div className="mt-4">
+                                <Label>Description (Optional)</Label>
+                                <Textarea
+                                  rows={2}
+                                  value={edu.description}
+                                  data-field="description"
+                                  onChange={(e) => updateEducation(edu.id, "description", e.target.value)}
+                                  placeholder="Additional details, achievements, relevant coursework..."
+                                />
+                              </div>
+                            </div>
+                          )}
+                        </SortableList>
+                        {content.education.length === 0 && (
+                          <div className="text-center py-8">
+                            <GraduationCap className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                            <p className="text-muted-foreground mb-4">No education added yet</p>
+                            <Button onClick={addEducation}>
+                              <Plus className="w-4 h-4 mr-2" />
+                              Add Your Education
+                            </Button>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="certifications" data-section="certifications" className="mt-6">
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="flex items-center">
+                            <BadgeCheck className="w-5 h-5 mr-2" />
+                            Certifications & Licenses
+                          </CardTitle>
+                          <Button onClick={addCertification}>
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Certification
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-6">
+                        {expiredCertifications > 0 && (
+                          <Alert variant="destructive">
+                            <AlertTriangle className="h-4 w-4" />
+                            <AlertDescription>
+                              {expiredCertifications === 1
+                                ? "1 certification has expired."
+                                : `${expiredCertifications} certifications have expired.`}{" "}
+                              Renew or remove lapsed credentials before sending this resume.
+                            </AlertDescription>
+                          </Alert>
+                        )}
+                        <SortableList
+                          items={content.certifications}
+                          getId={(cert) => cert.id}
+                          getLabel={(_, index) => `certification ${index + 1}`}
+                          onReorder={(certifications) => setContent({ ...content, certifications })}
+                          className="space-y-6"
+                        >
+                          {(cert, index, controls) => (
+                            <div data-entry={cert.id} className="border border-border rounded-lg p-4">
+                              <div className="flex items-center justify-between mb-4">
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="secondary">Certification {index + 1}</Badge>
+                                  {isExpired(cert.expiryDate) && <Badge variant="destructive">Expired</Badge>}
+                                </div>
+                                <div className="flex items-center">
+                                  {controls}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => removeCertification(cert.id)}
+                                    aria-label={`Delete certification ${index + 1}`}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              </div>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                  <Label>Name</Label>
+                                  <Input
+                                    value={cert.name}
+                                    data-field="name"
+                                    onChange={(e) => updateCertification(cert.id, "name", e.target.value)}
+                                    placeholder="AWS Certified Solutions Architect"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Issuing Organization</Label>
+                                  <Input
+                                    value={cert.issuer}
+                                    data-field="issuer"
+                                    onChange={(e) => updateCertification(cert.id, "issuer", e.target.value)}
+                                    placeholder="Amazon Web Services"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Issue Date</Label>
+                                  <Input
+                                    type="month"
+                                    value={cert.issueDate}
+                                    data-field="issueDate"
+                                    onChange={(e) => updateCertification(cert.id, "issueDate", e.target.value)}
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Expiry Date</Label>
+                                  <Input
+                                    type="month"
+                                    value={cert.expiryDate}
+                                    data-field="expiryDate"
+                                    onChange={(e) => updateCertification(cert.id, "expiryDate", e.target.value)}
+                                    placeholder="Leave empty if it does not expire"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Credential ID</Label>
+                                  <Input
+                                    value={cert.credentialId}
+                                    data-field="credentialId"
+                                    onChange={(e) => updateCertification(cert.id, "credentialId", e.target.value)}
+                                    placeholder="ABC-123456"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Verification URL</Label>
+                                  <Input
+                                    type="url"
+                                    value={cert.url}
+                                    data-field="url"
+                                    onChange={(e) => updateCertification(cert.id, "url", e.target.value)}
+                                    placeholder="https://www.credly.com/badges/..."
+                                  />
+                                </div>
+                              </div>
+                            </div>
+                          )}
+                        </SortableList>
+                        {content.certifications.length === 0 && (
+                          <div className="text-center py-8">
+                            <BadgeCheck className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                            <p className="text-muted-foreground mb-4">No certifications added yet</p>
+                            <Button onClick={addCertification}>
+                              <Plus className="w-4 h-4 mr-2" />
+                              Add Your First Certification
+                            </Button>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="awards" data-section="awards" className="mt-6">
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="flex items-center">
+                            <Trophy className="w-5 h-5 mr-2" />
+                            Awards & Honors
+                          </CardTitle>
+                          <Button onClick={addAward}>
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Award
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-6">
+                        <SortableList
+                          items={content.awards}
+                          getId={(award) => award.id}
+                          getLabel={(_, index) => `award ${index + 1}`}
+                          onReorder={(awards) => setContent({ ...content, awards })}
+                          className="space-y-6"
+                        >
+                          {(award, index, controls) => (
+                            <div data-entry={award.id} className="border border-border rounded-lg p-4">
+                              <div className="flex items-center justify-between mb-4">
+                                <Badge variant="secondary">Award {index + 1}</Badge>
+                                <div className="flex items-center">
+                                  {controls}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => removeAward(award.id)}
+                                    aria-label={`Delete award ${index + 1}`}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              </div>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                  <Label>Title</Label>
+                                  <Input
+                                    value={award.title}
+                                    data-field="title"
+                                    onChange={(e) => updateAward(award.id, "title", e.target.value)}
+                                    placeholder="Employee of the Year"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Awarded By</Label>
+                                  <Input
+                                    value={award.awarder}
+                                    data-field="awarder"
+                                    onChange={(e) => updateAward(award.id, "awarder", e.target.value)}
+                                    placeholder="Organization"
+                                  />
+                                </div>
+                                <div>
+                                  <Label>Date</Label>
+                                  <Input
+                                    type="month"
+                                    value={award.date}
+                                    data-field="date"
+                                    onChange={(e) => updateAward(award.id, "date", e.target.value)}
+                                  />
+                                </div>
+                              </div>
+                              <div className="mt-4">
+                                <Label>Description (Optional)</Label>
+                                <Textarea
+                                  rows={2}
+                                  value={award.description}
+                                  data-field="description"
+                                  onChange={(e) => updateAward(award.id, "description", e.target.value)}
+                                  placeholder="What the award recognized..."
+                                />
+                              </div>
+                            </div>
+                          )}
+                        </SortableList>
+                        {content.awards.length === 0 && (
+                          <div className="text-center py-8">
+                            <Trophy className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                            <p className="text-muted-foreground mb-4">No awards added yet</p>
+                            <Button onClick={addAward}>
+                              <Plus className="w-4 h-4 mr-2" />
+                              Add Your First Award
+                            </Button>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="skills" data-section="skills" className="mt-6">
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="flex items-center">
+                            <Award className="w-5 h-5 mr-2" />
+                            Skills
+                          </CardTitle>
+                          <Button onClick={addSkill}>
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Skill
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <SortableList
+                          items={content.skills.map((value, index) => ({ id: skillIds.current[index], value }))}
+                          getId={(skill) => skill.id}
+                          getLabel={(skill, index) => skill.value || `skill ${index + 1}`}
+                          onReorder={(skills) => {
+                            skillIds.current = skills.map((skill) => skill.id);
+                            setContent({ ...content, skills: skills.map((skill) => skill.value) });
+                          }}
+                          layout="grid"
+                          className="grid grid-cols-1 md:grid-cols-2 gap-4"
+                        >
+                          {({ value: skill }, index, controls) => (
+                            <div data-item={index} className="flex items-center space-x-1">
+                              <Input
+                                value={skill}
+                                onChange={(e) => updateSkill(index, e.target.value)}
+                                placeholder="e.g. JavaScript, Project Management"
+                              />
+                              {controls}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removeSkill(index)}
+                                aria-label={`Delete ${skill || `skill ${index + 1}`}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </SortableList>
+                        {content.skills.length === 0 && (
+                          <div className="text-center py-8">
+                            <Award className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                            <p className="text-muted-foreground mb-4">No skills added yet</p>
+                            <Button onClick={addSkill}>
+                              <Plus className="w-4 h-4 mr-2" />
+                              Add Your First Skill
+                            </Button>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="custom" className="mt-6">
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="flex items-center">
+                            <LayoutList className="w-5 h-5 mr-2" />
+                            Custom Sections
+                          </CardTitle>
+                          {content.customSections.length > 0 && (
+                            <AddCustomSectionMenu
+                              onAdd={(section) => setContent({
+                                ...content,
+                                customSections: [...content.customSections, section]
+                              })}
+                            />
+                          )}
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <CustomSectionsEditor
+                          sections={content.customSections}
+                          onChange={(customSections) => setContent({ ...content, customSections })}
+                          onRemove={(label, customSections, restore) => removeWithUndo(
+                            label,
+                            { ...content, customSections },
+                            (current) => ({ ...current, customSections: restore(current.customSections) })
+                          )}
+                        />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="design" className="mt-6">
+                    <DesignEditor
+                      design={content.design}
+                      template={template}
+                      onChange={(design) => setContent({ ...content, design })}
                     />
-                  </div>
-                </div>
-                <div>
-                  <Label htmlFor="summary">Professional Summary</Label>
-                  <Textarea
-                    id="summary"
-                    rows={4}
-                    value={content.personalInfo.summary}
-                    onChange={(e) => setContent({
-                      ...content,
-                      personalInfo: { ...content.personalInfo, summary: e.target.value }
-                    })}
-                    placeholder="Write a brief summary of your professional background and career objectives..."
+                  </TabsContent>
+                </Tabs>
+              </div>
+            </div>
+          </ResizablePanel>
+          {isPreviewVisible && (
+            <>
+              <ResizableHandle withHandle />
+              <ResizablePanel id="preview" order={2} defaultSize={45} minSize={25}>
+                <div ref={previewRef} className="h-full">
+                  <LivePreview
+                    content={content}
+                    template={template}
+                    target={previewTarget}
+                    onChange={setContent}
+                    onEdit={showInForm}
                   />
-                  <div className="mt-2">
-                    <Button variant="outline" size="sm">
-                      <Sparkles className="w-4 h-4 mr-2" />
-                      AI Suggest Content
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="experience" className="mt-6">
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <CardTitle className="flex items-center">
-                    <Briefcase className="w-5 h-5 mr-2" />
-                    Work Experience
-                  </CardTitle>
-                  <Button onClick={addExperience}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Experience
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {content.experience.map((exp, index) => (
-                  <div key={exp.id} className="border border-border rounded-lg p-4">
-                    <div className="flex items-center justify-between mb-4">
-                      <Badge variant="secondary">Experience {index + 1}</Badge>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeExperience(exp.id)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <Label>Company</Label>
-                        <Input
-                          value={exp.company}
-                          onChange={(e) => updateExperience(exp.id, "company", e.target.value)}
-                          placeholder="Company Name"
-                        />
-                      </div>
-                      <div>
-                        <Label>Position</Label>
-                        <Input
-                          value={exp.position}
-                          onChange={(e) => updateExperience(exp.id, "position", e.target.value)}
-                          placeholder="Job Title"
-                        />
-                      </div>
-                      <div>
-                        <Label>Start Date</Label>
-                        <Input
-                          type="month"
-                          value={exp.startDate}
-                          onChange={(e) => updateExperience(exp.id, "startDate", e.target.value)}
-                        />
-                      </div>
-                      <div>
-                        <Label>End Date</Label>
-                        <Input
-                          type="month"
-                          value={exp.endDate}
-                          onChange={(e) => updateExperience(exp.id, "endDate", e.target.value)}
-                          placeholder="Leave empty if current"
-                        />
-                      </div>
-                    </div>
-                    <div className="mt-4">
-                      <Label>Description</Label>
-                      <Textarea
-                        rows={3}
-                        value={exp.description}
-                        onChange={(e) => updateExperience(exp.id, "description", e.target.value)}
-                        placeholder="Describe your responsibilities and achievements..."
-                      />
-                    </div>
-                  </div>
-                ))}
-                {content.experience.length === 0 && (
-                  <div className="text-center py-8">
-                    <Briefcase className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-                    <p className="text-muted-foreground mb-4">No work experience added yet</p>
-                    <Button onClick={addExperience}>
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add Your First Experience
-                    </Button>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="education" className="mt-6">
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <CardTitle className="flex items-center">
-                    <GraduationCap className="w-5 h-5 mr-2" />
-                    Education
-                  </CardTitle>
-                  <Button onClick={addEducation}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Education
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {content.education.map((edu, index) => (
-                  <div key={edu.id} className="border border-border rounded-lg p-4">
-                    <div className="flex items-center justify-between mb-4">
-                      <Badge variant="secondary">Education {index + 1}</Badge>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeEducation(edu.id)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <Label>School/University</Label>
-                        <Input
-                          value={edu.school}
-                          onChange={(e) => updateEducation(edu.id, "school", e.target.value)}
-                          placeholder="School Name"
-                        />
-                      </div>
-                      <div>
-                        <Label>Degree</Label>
-                        <Input
-                          value={edu.degree}
-                          onChange={(e) => updateEducation(edu.id, "degree", e.target.value)}
-                          placeholder="Bachelor of Science"
-                        />
-                      </div>
-                      <div>
-                        <Label>Start Date</Label>
-                        <Input
-                          type="month"
-                          value={edu.startDate}
-                          onChange={(e) => updateEducation(edu.id, "startDate", e.target.value)}
-                        />
-                      </div>
-                      <div>
-                        <Label>End Date</Label>
-                        <Input
-                          type="month"
-                          value={edu.endDate}
-                          onChange={(e) => updateEducation(edu.id, "endDate", e.target.value)}
-                        />
-                      </div>
-                    </div>
-                    <div className="mt-4">
-                      <Label>Description (Optional)</Label>
-                      <Textarea
-                        rows={2}
-                        value={edu.description}
-                        onChange={(e) => updateEducation(edu.id, "description", e.target.value)}
-                        placeholder="Additional details, achievements, relevant coursework..."
-                      />
-                    </div>
-                  </div>
-                ))}
-                {content.education.length === 0 && (
-                  <div className="text-center py-8">
-                    <GraduationCap className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-                    <p className="text-muted-foreground mb-4">No education added yet</p>
-                    <Button onClick={addEducation}>
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add Your Education
-                    </Button>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="skills" className="mt-6">
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <CardTitle className="flex items-center">
-                    <Award className="w-5 h-5 mr-2" />
-                    Skills
-                  </CardTitle>
-                  <Button onClick={addSkill}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Skill
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {content.skills.map((skill, index) => (
-                    <div key={index} className="flex items-center space-x-2">
-                      <Input
-                        value={skill}
-                        onChange={(e) => updateSkill(index, e.target.value)}
-                        placeholder="e.g. JavaScript, Project Management"
-                      />
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeSkill(index)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  ))}
                 </div>
-                {content.skills.length === 0 && (
-                  <div className="text-center py-8">
-                    <Award className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-                    <p className="text-muted-foreground mb-4">No skills added yet</p>
-                    <Button onClick={addSkill}>
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add Your First Skill
-                    </Button>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
+              </ResizablePanel>
+            </>
+          )}
+        </ResizablePanelGroup>
       </main>
+
+      <UnsavedChangesDialog blocker={blocker} onSave={saveResume} />
+      <ResumeConflictDialog conflicts={conflict?.conflicts ?? null} onResolve={resolveConflict} />
     </div>
   );
 };
@@ -1,39 +1,135 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, FileText, Eye, Edit, Trash2, Download, User, LogOut, Crown } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Plus, FileText, FileType, FileJson, Eye, Edit, Trash2, Download, Upload, User, LogOut, Crown, GitBranch, Copy, MoreHorizontal, LayoutTemplate, RotateCcw, ArrowLeft, FolderInput, Folder, Tag, SearchX } from "lucide-react";
+import BulkActionsBar from "@/components/BulkActionsBar";
+import DuplicateResumeDialog, { type DuplicateOptions } from "@/components/DuplicateResumeDialog";
+import ImportResumeDialog, { type ImportedResume } from "@/components/ImportResumeDialog";
+import ResumeThumbnail from "@/components/ResumeThumbnail";
+import ResumeFilterBar from "@/components/ResumeFilterBar";
+import SaveAsTemplateDialog from "@/components/SaveAsTemplateDialog";
+import TagResumesDialog from "@/components/TagResumesDialog";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
-import { format } from "date-fns";
+import { fetchResumeTemplate } from "@/hooks/useResumeTemplate";
+import { deleteResumeThumbnail, useResumeThumbnails } from "@/hooks/useResumeThumbnails";
+import { exportResumeDocx } from "@/lib/export/docx";
+import { exportJsonResume } from "@/lib/export/jsonResume";
+import { exportResumePdf } from "@/lib/export/pdf";
+import {
+  createEmptyResumeContent,
+  defaultResumeFilters,
+  getResumeSearchText,
+  matchesSearchQuery,
+  parseResumeContent,
+  serializeResumeContent,
+  stripPersonalData,
+  type ResumeContent,
+  type ResumeFilters,
+} from "@/lib/resume";
+import { addDays, format, formatDistanceToNow } from "date-fns";
 
 interface Resume {
   id: string;
   title: string;
   template_id: string;
+  content: Json;
+  parent_id: string | null;
+  folder_id: string | null;
+  tags: string[];
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+interface ResumeFolder {
+  id: string;
+  name: string;
+}
+
+interface UserTemplate {
+  id: string;
+  name: string;
+  template_id: string;
+  content: Json;
+  created_at: string;
+}
+
+/** How long resumes stay in the trash before `purge_deleted_resumes` removes them. */
+const TRASH_RETENTION_DAYS = 30;
+
 interface Profile {
   display_name: string;
   subscription_tier: string;
 }
 
+/** A resume's search text; rows that can't be parsed are found by title alone. */
+const searchTextOf = (resume: Resume) => {
+  try {
+    return getResumeSearchText(resume.title, parseResumeContent(resume.content));
+  } catch (error) {
+    return resume.title.toLowerCase();
+  }
+};
+
 const Dashboard = () => {
   const [resumes, setResumes] = useState<Resume[]>([]);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [userTemplates, setUserTemplates] = useState<UserTemplate[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [duplicating, setDuplicating] = useState<Resume | null>(null);
+  const [savingAsTemplate, setSavingAsTemplate] = useState<Resume | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<{ resumes: Resume[]; permanent: boolean } | null>(null);
+  const [folders, setFolders] = useState<ResumeFolder[]>([]);
+  const [filters, setFilters] = useState<ResumeFilters>(defaultResumeFilters);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [tagging, setTagging] = useState<Resume[] | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
   useEffect(() => {
     checkUser();
     fetchResumes();
+    fetchUserTemplates();
+    fetchFolders();
     fetchProfile();
   }, []);
 
+  const thumbnails = useResumeThumbnails(resumes.filter((resume) => !resume.deleted_at));
+
+  // Parsing every resume is too slow to repeat on each keystroke in the search box.
+  const searchTexts = useMemo(
+    () => new Map(resumes.map((resume) => [resume.id, searchTextOf(resume)])),
+    [resumes]
+  );
+
   const checkUser = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session) {
@@ -61,6 +157,34 @@ const Dashboard = () => {
     }
   };
 
+  const fetchUserTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("user_resume_templates")
+        .select("id, name, template_id, content, created_at")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setUserTemplates(data || []);
+    } catch (error) {
+      console.error("Error fetching saved templates:", error);
+    }
+  };
+
+  const fetchFolders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("resume_folders")
+        .select("id, name")
+        .order("name");
+
+      if (error) throw error;
+      setFolders(data || []);
+    } catch (error) {
+      console.error("Error fetching folders:", error);
+    }
+  };
+
   const fetchProfile = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -84,44 +208,151 @@ const Dashboard = () => {
     navigate("/");
   };
 
+  const insertResume = async (title: string, content: ResumeContent, templateId = "modern-minimal") => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from("resumes")
+      .insert([
+        {
+          user_id: user.id,
+          title,
+          template_id: templateId,
+          content: serializeResumeContent(content)
+        }
+      ])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
   const createNewResume = async () => {
+    try {
+      const data = await insertResume("New Resume", createEmptyResumeContent());
+      if (!data) return;
+      
+      toast({
+        title: "Resume created!",
+        description: "Your new resume is ready to edit.",
+      });
+      
+      navigate(`/builder/${data.id}`);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: "Failed to create resume",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importResume = async ({ title, content, report }: ImportedResume) => {
+    const data = await insertResume(title, content);
+    if (!data) return;
+
+    toast({
+      title: "Resume imported!",
+      description: "Review the imported content before exporting.",
+    });
+
+    if (report) {
+      navigate(`/import/${data.id}/review`, { state: { report } });
+    } else {
+      navigate(`/builder/${data.id}`);
+    }
+  };
+
+  const createVariant = async (resume: Resume) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // Migrate once so the variant and its sync base share the same entry ids.
+      const content = serializeResumeContent(parseResumeContent(resume.content));
       const { data, error } = await supabase
         .from("resumes")
         .insert([
           {
             user_id: user.id,
-            title: "New Resume",
-            template_id: "modern-minimal",
-            content: {
-              personalInfo: {
-                fullName: "",
-                email: "",
-                phone: "",
-                location: "",
-                summary: ""
-              },
-              experience: [],
-              education: [],
-              skills: []
-            }
+            title: `${resume.title} (Variant)`,
+            template_id: resume.template_id,
+            content,
+            parent_id: resume.id,
+            parent_synced_content: content
           }
         ])
         .select()
         .single();
 
       if (error) throw error;
-      
+
+      toast({
+        title: "Variant created!",
+        description: "Tailor it for the job; you can pull later changes from the original.",
+      });
+
+      navigate(`/builder/${data.id}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create variant",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const duplicateResume = async ({ title, templateId }: DuplicateOptions) => {
+    const data = await insertResume(title, parseResumeContent(duplicating.content), templateId);
+    if (!data) return;
+
+    setResumes([data, ...resumes]);
+    toast({
+      title: "Resume duplicated!",
+      description: `"${data.title}" is ready to edit.`,
+    });
+  };
+
+  const saveAsTemplate = async (name: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("user_resume_templates")
+      .insert([
+        {
+          user_id: user.id,
+          name,
+          template_id: savingAsTemplate.template_id,
+          content: serializeResumeContent(stripPersonalData(parseResumeContent(savingAsTemplate.content)))
+        }
+      ])
+      .select("id, name, template_id, content, created_at")
+      .single();
+
+    if (error) throw error;
+
+    setUserTemplates([data, ...userTemplates]);
+    toast({
+      title: "Template saved!",
+      description: "Start new resumes from it under My Templates.",
+    });
+  };
+
+  const createFromUserTemplate = async (template: UserTemplate) => {
+    try {
+      const data = await insertResume(template.name, parseResumeContent(template.content), template.template_id);
+      if (!data) return;
+
       toast({
         title: "Resume created!",
-        description: "Your new resume is ready to edit.",
+        description: "Fill in your details to finish it.",
       });
-      
+
       navigate(`/builder/${data.id}`);
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
         description: "Failed to create resume",
@@ -130,6 +361,78 @@ const Dashboard = () => {
     }
   };
 
+  const deleteUserTemplate = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from("user_resume_templates")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      setUserTemplates(userTemplates.filter(template => template.id !== id));
+      toast({
+        title: "Template deleted",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setDeletedAt = async (ids: string[], deletedAt: string | null) => {
+    const { data, error } = await supabase
+      .from("resumes")
+      .update({ deleted_at: deletedAt })
+      .in("id", ids)
+      .select();
+
+    if (error) throw error;
+    const updated = new Map(data.map((resume) => [resume.id, resume]));
+    setResumes((current) => current.map(resume => updated.get(resume.id) ?? resume));
+  };
+
+  const restoreResumes = async (ids: string[]) => {
+    try {
+      await setDeletedAt(ids, null);
+      toast({
+        title: ids.length === 1 ? "Resume restored" : `${ids.length} resumes restored`,
+        description: "Back in your resumes.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to restore resume",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const trashResumes = async (ids: string[]) => {
+    try {
+      await setDeletedAt(ids, new Date().toISOString());
+      setSelectedIds((current) => current.filter((id) => !ids.includes(id)));
+      toast({
+        title: ids.length === 1 ? "Moved to trash" : `Moved ${ids.length} resumes to trash`,
+        description: `Permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
+        action: (
+          <ToastAction altText="Restore from the trash" onClick={() => restoreResumes(ids)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete resume",
+        variant: "destructive",
+      });
+    }
+  };
+
   const deleteResume = async (id: string) => {
     try {
       const { error } = await supabase
@@ -138,8 +441,12 @@ const Dashboard = () => {
         .eq("id", id);
 
       if (error) throw error;
+      deleteResumeThumbnail(id);
       
-      setResumes(resumes.filter(resume => resume.id !== id));
+      // Variants of a deleted resume become standalone, as in the database.
+      setResumes(resumes
+        .filter(resume => resume.id !== id)
+        .map(resume => resume.parent_id === id ? { ...resume, parent_id: null } : resume));
       toast({
         title: "Resume deleted",
         description: "Your resume has been permanently deleted.",
@@ -153,6 +460,267 @@ const Dashboard = () => {
     }
   };
 
+  const confirmDelete = () => {
+    const { resumes: deleting, permanent } = pendingDelete;
+    setPendingDelete(null);
+    if (permanent) {
+      deleteResume(deleting[0].id);
+    } else {
+      trashResumes(deleting.map((resume) => resume.id));
+    }
+  };
+
+  const updateResumes = async (updates: { id: string; values: { folder_id?: string | null; tags?: string[] } }[]) => {
+    try {
+      const results = await Promise.all(updates.map(({ id, values }) =>
+        supabase.from("resumes").update(values).eq("id", id).select().single()
+      ));
+
+      const failed = results.find((result) => result.error);
+      if (failed) throw failed.error;
+
+      const updated = new Map(results.map(({ data }) => [data.id, data]));
+      setResumes((current) => current.map(resume => updated.get(resume.id) ?? resume));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update resumes",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const moveResumes = (ids: string[], folderId: string | null) =>
+    updateResumes(ids.map((id) => ({ id, values: { folder_id: folderId } })));
+
+  // A single resume has its tags replaced; several have the tags added.
+  const tagResumes = (targets: Resume[], tags: string[]) =>
+    updateResumes(targets.map((resume) => ({
+      id: resume.id,
+      values: {
+        tags: targets.length === 1
+          ? tags
+          : [...resume.tags, ...tags.filter((tag) => !resume.tags.some((item) => item.toLowerCase() === tag.toLowerCase()))],
+      },
+    })));
+
+  const createFolder = async (name: string) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("resume_folders")
+        .insert([{ user_id: user.id, name }])
+        .select("id, name")
+        .single();
+
+      if (error) throw error;
+      setFolders([...folders, data].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create folder",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteFolder = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from("resume_folders")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      // Resumes in the folder stay, unfiled, as in the database.
+      setFolders(folders.filter(folder => folder.id !== id));
+      setResumes(resumes.map(resume => resume.folder_id === id ? { ...resume, folder_id: null } : resume));
+      setFilters({ ...filters, folderId: null });
+      toast({
+        title: "Folder deleted",
+        description: "Its resumes are still in your resumes.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete folder",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportResumes = async (targets: Resume[], fileFormat: "pdf" | "docx" | "json") => {
+    for (const resume of targets) {
+      await exportResume(resume, fileFormat);
+    }
+  };
+
+  const exportResume = async (resume: Resume, fileFormat: "pdf" | "docx" | "json") => {
+    try {
+      const content = parseResumeContent(resume.content);
+      if (fileFormat === "json") {
+        exportJsonResume(content, resume.title);
+        return;
+      }
+
+      const { template } = await fetchResumeTemplate(resume.template_id);
+      if (fileFormat === "pdf") {
+        await exportResumePdf(content, template, resume.title);
+      } else {
+        await exportResumeDocx(content, template, resume.title);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export resume",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderActions = (resume: Resume) => (
+    <div className="flex shrink-0 items-center space-x-1">
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => navigate(`/builder/${resume.id}`)}
+      >
+        <Edit className="w-4 h-4" />
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => navigate(`/preview/${resume.id}`)}
+      >
+        <Eye className="w-4 h-4" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost">
+            <Download className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => exportResume(resume, "pdf")}>
+            <FileText className="w-4 h-4 mr-2" />
+            PDF document
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => exportResume(resume, "docx")}>
+            <FileType className="w-4 h-4 mr-2" />
+            Word document (.docx)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => exportResume(resume, "json")}>
+            <FileJson className="w-4 h-4 mr-2" />
+            JSON Resume (.json)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost" aria-label="More actions">
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setDuplicating(resume)}>
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => createVariant(resume)}>
+            <GitBranch className="w-4 h-4 mr-2" />
+            Create variant for a job
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <FolderInput className="w-4 h-4 mr-2" />
+              Move to folder
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {folders.map((folder) => (
+                <DropdownMenuItem
+                  key={folder.id}
+                  disabled={resume.folder_id === folder.id}
+                  onClick={() => moveResumes([resume.id], folder.id)}
+                >
+                  {folder.name}
+                </DropdownMenuItem>
+              ))}
+              {folders.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem disabled={!resume.folder_id} onClick={() => moveResumes([resume.id], null)}>
+                No folder
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuItem onClick={() => setTagging([resume])}>
+            <Tag className="w-4 h-4 mr-2" />
+            Edit tags
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setSavingAsTemplate(resume)}>
+            <LayoutTemplate className="w-4 h-4 mr-2" />
+            Save as template for myself
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => setPendingDelete({ resumes: [resume], permanent: false })}
+        aria-label="Move to trash"
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+
+  const activeResumes = resumes.filter((resume) => !resume.deleted_at);
+  const trashedResumes = resumes
+    .filter((resume) => resume.deleted_at)
+    .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+
+  const allTags = [...new Set(activeResumes.flatMap((resume) => resume.tags))].sort((a, b) => a.localeCompare(b));
+  const folderNames = new Map(folders.map((folder) => [folder.id, folder.name]));
+
+  const compareResumes = (a: Resume, b: Resume) => {
+    switch (filters.sort) {
+      case "created":
+        return b.created_at.localeCompare(a.created_at);
+      case "title":
+        return a.title.localeCompare(b.title);
+      case "template":
+        return a.template_id.localeCompare(b.template_id) || a.title.localeCompare(b.title);
+      default:
+        return b.updated_at.localeCompare(a.updated_at);
+    }
+  };
+
+  const visibleResumes = activeResumes
+    .filter((resume) =>
+      (!filters.folderId || resume.folder_id === filters.folderId) &&
+      filters.tags.every((tag) => resume.tags.includes(tag)) &&
+      matchesSearchQuery(searchTexts.get(resume.id) ?? "", filters.query)
+    )
+    .sort(compareResumes);
+
+  const selectedResumes = visibleResumes.filter((resume) => selectedIds.includes(resume.id));
+  const toggleSelected = (id: string) =>
+    setSelectedIds((current) => (current.includes(id) ? current.filter((item) => item !== id) : [...current, id]));
+  const toggleSelectAll = () =>
+    setSelectedIds(selectedResumes.length === visibleResumes.length ? [] : visibleResumes.map((resume) => resume.id));
+
+  // Variants are listed under the resume they derive from, nested by depth.
+  // A variant whose master is in the trash or filtered out is listed on its own.
+  const resumeIds = new Set(visibleResumes.map((resume) => resume.id));
+  const masters = visibleResumes.filter((resume) => !resume.parent_id || !resumeIds.has(resume.parent_id));
+  const getVariants = (parentId: string, depth = 0): { resume: Resume; depth: number }[] =>
+    visibleResumes
+      .filter((resume) => resume.parent_id === parentId)
+      .flatMap((variant) => [{ resume: variant, depth }, ...getVariants(variant.id, depth + 1)]);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -209,7 +777,7 @@ const Dashboard = () => {
         </div>
 
         {/* Quick Actions */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Card className="bg-gradient-primary text-white cursor-pointer hover:shadow-card transition-all duration-300" onClick={createNewResume}>
             <CardContent className="p-6 text-center">
               <Plus className="w-12 h-12 mx-auto mb-4" />
@@ -218,10 +786,18 @@ const Dashboard = () => {
             </CardContent>
           </Card>
 
+          <Card className="border border-border cursor-pointer hover:shadow-card transition-all duration-300" onClick={() => setIsImportOpen(true)}>
+            <CardContent className="p-6 text-center">
+              <Upload className="w-12 h-12 mx-auto mb-4 text-primary" />
+              <h3 className="text-xl font-semibold mb-2 text-foreground">Import Resume</h3>
+              <p className="text-muted-foreground">Start from a file you already have</p>
+            </CardContent>
+          </Card>
+
           <Card className="border border-border hover:shadow-card transition-all duration-300">
             <CardContent className="p-6 text-center">
               <FileText className="w-12 h-12 mx-auto mb-4 text-primary" />
-              <h3 className="text-xl font-semibold mb-2 text-foreground">{resumes.length}</h3>
+              <h3 className="text-xl font-semibold mb-2 text-foreground">{activeResumes.length}</h3>
               <p className="text-muted-foreground">Total Resumes</p>
             </CardContent>
           </Card>
@@ -240,14 +816,76 @@ const Dashboard = () => {
         {/* Resumes Grid */}
         <div className="mb-8">
           <div className="flex items-center justify-between mb-6">
-            <h2 className="text-2xl font-semibold text-foreground">Your Resumes</h2>
-            <Button onClick={createNewResume}>
-              <Plus className="w-4 h-4 mr-2" />
-              New Resume
-            </Button>
+            <h2 className="text-2xl font-semibold text-foreground">{showTrash ? "Trash" : "Your Resumes"}</h2>
+            {showTrash ? (
+              <Button variant="outline" onClick={() => setShowTrash(false)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to resumes
+              </Button>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setSelectedIds([]);
+                    setShowTrash(true);
+                  }}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Trash
+                  {trashedResumes.length > 0 && (
+                    <Badge variant="secondary" className="ml-2">{trashedResumes.length}</Badge>
+                  )}
+                </Button>
+                <Button onClick={createNewResume}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Resume
+                </Button>
+              </div>
+            )}
           </div>
 
-          {resumes.length === 0 ? (
+          {showTrash ? (
+            trashedResumes.length === 0 ? (
+              <Card className="p-12 text-center">
+                <Trash2 className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+                <h3 className="text-xl font-semibold mb-2 text-foreground">Trash is empty</h3>
+                <p className="text-muted-foreground">
+                  Deleted resumes stay here for {TRASH_RETENTION_DAYS} days before they are removed for good.
+                </p>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {trashedResumes.map((resume) => (
+                  <Card key={resume.id}>
+                    <CardHeader>
+                      <CardTitle className="text-lg truncate">{resume.title}</CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        Deleted {format(new Date(resume.deleted_at), "MMM d, yyyy")} · removed for good in{" "}
+                        {formatDistanceToNow(addDays(new Date(resume.deleted_at), TRASH_RETENTION_DAYS))}
+                      </p>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex items-center justify-end space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => restoreResumes([resume.id])}>
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Restore
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setPendingDelete({ resumes: [resume], permanent: true })}
+                        >
+                          Delete forever
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )
+          ) : activeResumes.length === 0 ? (
             <Card className="p-12 text-center">
               <FileText className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
               <h3 className="text-xl font-semibold mb-2 text-foreground">No resumes yet</h3>
@@ -260,51 +898,221 @@ const Dashboard = () => {
               </Button>
             </Card>
           ) : (
+            <>
+              <ResumeFilterBar
+                filters={filters}
+                onChange={setFilters}
+                folders={folders}
+                tags={allTags}
+                onCreateFolder={createFolder}
+                onDeleteFolder={deleteFolder}
+                selectedCount={selectedResumes.length}
+                visibleCount={visibleResumes.length}
+                onToggleSelectAll={toggleSelectAll}
+              />
+
+              {visibleResumes.length === 0 ? (
+                <Card className="p-12 text-center">
+                  <SearchX className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+                  <h3 className="text-xl font-semibold mb-2 text-foreground">No matching resumes</h3>
+                  <p className="text-muted-foreground">
+                    Try a different search or clear the filters.
+                  </p>
+                </Card>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {masters.map((resume) => {
+                    const variants = getVariants(resume.id);
+
+                    return (
+                      <Card key={resume.id} className="hover:shadow-card transition-all duration-300">
+                        <div className="px-6 pt-6">
+                          <ResumeThumbnail
+                            url={thumbnails[resume.id]}
+                            title={resume.title}
+                            onClick={() => navigate(`/builder/${resume.id}`)}
+                          />
+                        </div>
+                        <CardHeader>
+                          <div className="flex items-start gap-3">
+                            <Checkbox
+                              checked={selectedIds.includes(resume.id)}
+                              onCheckedChange={() => toggleSelected(resume.id)}
+                              aria-label={`Select ${resume.title}`}
+                              className="mt-1.5"
+                            />
+                            <div className="min-w-0 flex-1">
+                              <CardTitle className="text-lg truncate">{resume.title}</CardTitle>
+                              <p className="text-sm text-muted-foreground">
+                                Updated {format(new Date(resume.updated_at), "MMM d, yyyy")}
+                              </p>
+                            </div>
+                          </div>
+                        </CardHeader>
+                        <CardContent>
+                          {(resume.folder_id || resume.tags.length > 0) && (
+                            <div className="mb-3 flex flex-wrap gap-1.5">
+                              {resume.folder_id && folderNames.has(resume.folder_id) && (
+                                <Badge variant="outline">
+                                  <Folder className="w-3 h-3 mr-1" />
+                                  {folderNames.get(resume.folder_id)}
+                                </Badge>
+                              )}
+                              {resume.tags.map((tag) => (
+                                <Badge key={tag} variant="outline" className="font-normal">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                          <div className="flex items-center justify-between">
+                            <Badge variant="secondary" className="capitalize">
+                              {resume.template_id.replace('-', ' ')}
+                            </Badge>
+                            {renderActions(resume)}
+                          </div>
+
+                          {variants.length > 0 && (
+                            <div className="mt-4 space-y-1 border-t border-border pt-3">
+                              <p className="flex items-center text-xs font-medium uppercase text-muted-foreground">
+                                <GitBranch className="w-3 h-3 mr-1" />
+                                {variants.length} {variants.length === 1 ? "variant" : "variants"}
+                              </p>
+                              {variants.map(({ resume: variant, depth }) => (
+                                <div
+                                  key={variant.id}
+                                  className="flex items-center justify-between gap-2 rounded-md py-1 pr-1 hover:bg-muted/60"
+                                  style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+                                >
+                                  <div className="flex min-w-0 items-center gap-2">
+                                    <Checkbox
+                                      checked={selectedIds.includes(variant.id)}
+                                      onCheckedChange={() => toggleSelected(variant.id)}
+                                      aria-label={`Select ${variant.title}`}
+                                    />
+                                    <button
+                                      type="button"
+                                      className="min-w-0 text-left"
+                                      onClick={() => navigate(`/builder/${variant.id}`)}
+                                    >
+                                      <span className="block truncate text-sm font-medium">{variant.title}</span>
+                                      <span className="block text-xs text-muted-foreground">
+                                        Updated {format(new Date(variant.updated_at), "MMM d, yyyy")}
+                                      </span>
+                                    </button>
+                                  </div>
+                                  {renderActions(variant)}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Saved Templates */}
+        {!showTrash && userTemplates.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-semibold text-foreground mb-6">My Templates</h2>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {resumes.map((resume) => (
-                <Card key={resume.id} className="hover:shadow-card transition-all duration-300">
-                  <CardHeader>
-                    <CardTitle className="text-lg truncate">{resume.title}</CardTitle>
-                    <p className="text-sm text-muted-foreground">
-                      Updated {format(new Date(resume.updated_at), "MMM d, yyyy")}
-                    </p>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="flex items-center justify-between">
-                      <Badge variant="secondary" className="capitalize">
-                        {resume.template_id.replace('-', ' ')}
-                      </Badge>
-                      <div className="flex items-center space-x-2">
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => navigate(`/builder/${resume.id}`)}
-                        >
-                          <Edit className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => navigate(`/preview/${resume.id}`)}
-                        >
-                          <Eye className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => deleteResume(resume.id)}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
+              {userTemplates.map((template) => (
+                <Card key={template.id} className="hover:shadow-card transition-all duration-300">
+                  <CardContent className="flex items-center justify-between gap-4 p-4">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium text-foreground">{template.name}</p>
+                      <p className="text-sm text-muted-foreground capitalize">
+                        {template.template_id.replace('-', ' ')} · Saved {format(new Date(template.created_at), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center space-x-1">
+                      <Button size="sm" variant="outline" onClick={() => createFromUserTemplate(template)}>
+                        Use
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteUserTemplate(template.id)}
+                        aria-label="Delete template"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
                     </div>
                   </CardContent>
                 </Card>
               ))}
             </div>
-          )}
-        </div>
+          </div>
+        )}
       </main>
+
+      <ImportResumeDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImport={importResume}
+      />
+      <DuplicateResumeDialog
+        resume={duplicating}
+        onOpenChange={(open) => !open && setDuplicating(null)}
+        onDuplicate={duplicateResume}
+      />
+      <SaveAsTemplateDialog
+        resume={savingAsTemplate}
+        onOpenChange={(open) => !open && setSavingAsTemplate(null)}
+        onSave={saveAsTemplate}
+      />
+
+      <TagResumesDialog
+        resumes={tagging}
+        suggestions={allTags}
+        onOpenChange={(open) => !open && setTagging(null)}
+        onSave={(tags) => tagResumes(tagging, tags)}
+      />
+
+      {!showTrash && selectedResumes.length > 0 && (
+        <BulkActionsBar
+          count={selectedResumes.length}
+          folders={folders}
+          onMove={(folderId) => moveResumes(selectedResumes.map((resume) => resume.id), folderId)}
+          onTag={() => setTagging(selectedResumes)}
+          onExport={(fileFormat) => exportResumes(selectedResumes, fileFormat)}
+          onDelete={() => setPendingDelete({ resumes: selectedResumes, permanent: false })}
+          onClear={() => setSelectedIds([])}
+        />
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.permanent
+                ? "Delete this resume forever?"
+                : pendingDelete?.resumes.length > 1
+                  ? `Move ${pendingDelete.resumes.length} resumes to the trash?`
+                  : "Move this resume to the trash?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.permanent
+                ? `"${pendingDelete.resumes[0].title}" and its revision history will be deleted. This cannot be undone.`
+                : `You can restore ${pendingDelete?.resumes.length > 1 ? "them" : `"${pendingDelete?.resumes[0].title}"`} from the trash for ${TRASH_RETENTION_DAYS} days.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {pendingDelete?.permanent ? "Delete forever" : "Move to trash"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,179 @@
+import { useCallback, useState, useEffect } from "react";
+import { useParams, useNavigate, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ArrowLeft, CheckCircle2, Edit, FileQuestion } from "lucide-react";
+import ResumeDocument from "@/components/resume/ResumeDocument";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useResumeTemplate } from "@/hooks/useResumeTemplate";
+import type { DetectedField, ImportReport } from "@/lib/import/resumeText";
+import { parseResumeContent, type ResumeContent } from "@/lib/resume";
+
+const ImportReview = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const report = (location.state as { report?: ImportReport } | null)?.report;
+  const [isLoading, setIsLoading] = useState(true);
+  const [title, setTitle] = useState("");
+  const [templateId, setTemplateId] = useState<string>();
+  const [content, setContent] = useState<ResumeContent | null>(null);
+  const { template } = useResumeTemplate(templateId);
+
+  const fetchResume = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("resumes")
+        .select("*")
+        .eq("id", id)
+        .is("deleted_at", null)
+        .single();
+
+      if (error) throw error;
+
+      setTitle(data.title);
+      setTemplateId(data.template_id);
+      setContent(parseResumeContent(data.content));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load resume",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, navigate, toast]);
+
+  const hasReport = !!report;
+  useEffect(() => {
+    // The report only lives in navigation state; without it there is nothing to review.
+    if (!hasReport) {
+      navigate(`/builder/${id}`, { replace: true });
+      return;
+    }
+    if (id) {
+      fetchResume();
+    }
+  }, [id, hasReport, navigate, fetchResume]);
+
+  if (isLoading || !content || !report) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading imported resume...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const groups = report.fields.reduce<Record<string, DetectedField[]>>((result, field) => {
+    (result[field.group] ??= []).push(field);
+    return result;
+  }, {});
+  const lowConfidence = report.fields.filter((field) => field.confidence === "low").length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <div className="border-l border-border h-6" />
+              <h1 className="text-lg font-semibold text-foreground truncate">Review import: {title}</h1>
+            </div>
+            <Button onClick={() => navigate(`/builder/${id}`)}>
+              <Edit className="w-4 h-4 mr-2" />
+              Open in Builder
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-[1fr_auto] gap-8">
+        <div className="space-y-6">
+          <div>
+            <h2 className="text-2xl font-semibold text-foreground mb-2">
+              {lowConfidence > 0 ? `${lowConfidence} fields need a second look` : "Everything was detected"}
+            </h2>
+            <p className="text-muted-foreground">
+              Fields marked "Check" were guessed from the document layout. Fix them in the Builder before exporting.
+            </p>
+          </div>
+
+          {Object.entries(groups).map(([group, fields]) => (
+            <Card key={group}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">{group}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {fields.map((field) => (
+                  <div key={field.label} className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm text-muted-foreground">{field.label}</p>
+                      <p className="text-foreground break-words">
+                        {field.value || <span className="italic text-muted-foreground">Not found</span>}
+                      </p>
+                    </div>
+                    {field.confidence === "low" ? (
+                      <Badge className="bg-accent text-accent-foreground shrink-0">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Check
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="shrink-0">
+                        <CheckCircle2 className="w-3 h-3 mr-1" />
+                        Detected
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+
+          {report.ignoredSections.length > 0 && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center">
+                  <FileQuestion className="w-4 h-4 mr-2" />
+                  Not imported
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  These sections were not recognized. Copy anything you need into the Builder.
+                </p>
+                {report.ignoredSections.map((section, index) => (
+                  <div key={index}>
+                    <p className="font-medium text-foreground capitalize">{section.heading.toLowerCase()}</p>
+                    <p className="text-sm text-muted-foreground whitespace-pre-line">{section.lines.join("\n")}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Scaled-down preview of the imported resume */}
+        <div className="hidden lg:block">
+          <div className="sticky top-24 w-[calc(210mm*0.55)] h-[calc(297mm*0.55)] overflow-hidden rounded-lg">
+            <ResumeDocument content={content} template={template} className="origin-top-left scale-[0.55]" />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ImportReview;
@@ -0,0 +1,103 @@
+import { useCallback, useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Edit, Printer } from "lucide-react";
+import ResumeDocument from "@/components/resume/ResumeDocument";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useResumeTemplate } from "@/hooks/useResumeTemplate";
+import { parseResumeContent, type ResumeContent } from "@/lib/resume";
+
+const Preview = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [title, setTitle] = useState("");
+  const [templateId, setTemplateId] = useState<string>();
+  const [content, setContent] = useState<ResumeContent | null>(null);
+  const { template, name: templateName } = useResumeTemplate(templateId);
+
+  const fetchResume = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("resumes")
+        .select("*")
+        .eq("id", id)
+        .is("deleted_at", null)
+        .single();
+
+      if (error) throw error;
+
+      setTitle(data.title);
+      setTemplateId(data.template_id);
+      setContent(parseResumeContent(data.content));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load resume",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, navigate, toast]);
+
+  useEffect(() => {
+    if (id) {
+      fetchResume();
+    }
+  }, [id, fetchResume]);
+
+  if (isLoading || !content) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading preview...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background print:bg-white">
+      {/* Header */}
+      <header className="border-b border-border bg-card sticky top-0 z-10 print:hidden">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <div className="border-l border-border h-6" />
+              <h1 className="text-lg font-semibold text-foreground truncate">{title}</h1>
+              <Badge variant="secondary">{templateName}</Badge>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="sm" onClick={() => window.print()}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print
+              </Button>
+              <Button onClick={() => navigate(`/builder/${id}`)}>
+                <Edit className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Resume */}
+      <main className="py-10 px-6 overflow-x-auto print:p-0">
+        <ResumeDocument content={content} template={template} className="mx-auto print:shadow-none" />
+      </main>
+    </div>
+  );
+};
+
+export default Preview;
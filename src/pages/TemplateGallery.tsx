@@ -6,7 +6,9 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Eye, Star, Crown, ArrowLeft, Search } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { createEmptyResumeContent, parseTemplateData, serializeResumeContent } from "@/lib/resume";
 import { useToast } from "@/hooks/use-toast";
+import TemplatePreview from "@/components/resume/TemplatePreview";
 
 interface Template {
   id: string;
@@ -91,18 +93,7 @@ const TemplateGallery = () => {
             user_id: user.id,
             title: "New Resume",
             template_id: templateId,
-            content: {
-              personalInfo: {
-                fullName: "",
-                email: "",
-                phone: "",
-                location: "",
-                summary: ""
-              },
-              experience: [],
-              education: [],
-              skills: []
-            }
+            content: serializeResumeContent(createEmptyResumeContent())
           }
         ])
         .select()
@@ -214,12 +205,7 @@ const TemplateGallery = () => {
                       className="w-full h-full object-cover"
                     />
                   ) : (
-                    <div className="flex items-center justify-center h-full bg-gradient-primary text-white">
-                      <div className="text-center">
-                        <Star className="w-12 h-12 mx-auto mb-2" />
-                        <p className="text-lg font-semibold">{template.name}</p>
-                      </div>
-                    </div>
+                    <TemplatePreview template={parseTemplateData(template.template_data)} className="h-full" />
                   )}
                   
                   {/* Premium Badge */}
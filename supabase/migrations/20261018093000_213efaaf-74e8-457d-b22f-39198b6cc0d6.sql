@@ -0,0 +1,98 @@
+-- Create resume_revisions table for resume history
+CREATE TABLE public.resume_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resume_id UUID NOT NULL REFERENCES public.resumes (id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL,
+  content JSONB NOT NULL DEFAULT '{}',
+  restored_from UUID REFERENCES public.resume_revisions (id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX resume_revisions_resume_id_created_at_idx
+ON public.resume_revisions (resume_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.resume_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the trigger below; owners can read and prune them
+CREATE POLICY "Users can view their own resume revisions" 
+ON public.resume_revisions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own resume revisions" 
+ON public.resume_revisions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Snapshot a resume whenever its title or content is saved. Autosave writes
+-- after every pause in typing, so history is thinned as it ages: every save
+-- from the last day is kept, and each earlier day keeps only its last save.
+CREATE OR REPLACE FUNCTION public.snapshot_resume_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  restored_id UUID := NULLIF(current_setting('app.restored_revision_id', true), '')::UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.title IS NOT DISTINCT FROM NEW.title AND OLD.content IS NOT DISTINCT FROM NEW.content THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.resume_revisions (resume_id, user_id, title, content, restored_from)
+  VALUES (NEW.id, NEW.user_id, NEW.title, NEW.content, restored_id);
+
+  DELETE FROM public.resume_revisions revision
+  WHERE revision.resume_id = NEW.id
+    AND revision.created_at < now() - INTERVAL '1 day'
+    AND EXISTS (
+      SELECT 1
+      FROM public.resume_revisions later
+      WHERE later.resume_id = revision.resume_id
+        AND later.created_at > revision.created_at
+        AND date_trunc('day', later.created_at) = date_trunc('day', revision.created_at)
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_resume_revision
+AFTER INSERT OR UPDATE OF title, content ON public.resumes
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_resume_revision();
+
+-- Restore a resume to one of its revisions. Runs with the caller's rights,
+-- so only the owner's revisions and resumes are reachable.
+CREATE OR REPLACE FUNCTION public.restore_resume_revision(revision_id UUID)
+RETURNS public.resumes
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  revision public.resume_revisions;
+  restored public.resumes;
+BEGIN
+  SELECT * INTO revision FROM public.resume_revisions WHERE id = revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', revision_id;
+  END IF;
+
+  PERFORM set_config('app.restored_revision_id', revision.id::TEXT, true);
+
+  UPDATE public.resumes
+  SET title = revision.title, content = revision.content
+  WHERE id = revision.resume_id
+  RETURNING * INTO restored;
+
+  PERFORM set_config('app.restored_revision_id', '', true);
+  RETURN restored;
+END;
+$$;
+
+-- Start the history of existing resumes from their current state
+INSERT INTO public.resume_revisions (resume_id, user_id, title, content, created_at)
+SELECT id, user_id, title, content, updated_at
+FROM public.resumes;
@@ -0,0 +1,7 @@
+-- Resume variants: a variant tracks the resume it was derived from and the
+-- parent content it last synced with, so later parent changes can be pulled in
+ALTER TABLE public.resumes
+ADD COLUMN parent_id UUID REFERENCES public.resumes (id) ON DELETE SET NULL,
+ADD COLUMN parent_synced_content JSONB;
+
+CREATE INDEX resumes_parent_id_idx ON public.resumes (parent_id);
@@ -0,0 +1,39 @@
+-- Create user_resume_templates table for resumes users save as their own templates
+CREATE TABLE public.user_resume_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  template_id TEXT NOT NULL DEFAULT 'modern-minimal',
+  content JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_resume_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user templates
+CREATE POLICY "Users can view their own templates" 
+ON public.user_resume_templates 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own templates" 
+ON public.user_resume_templates 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own templates" 
+ON public.user_resume_templates 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own templates" 
+ON public.user_resume_templates 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_resume_templates_updated_at
+BEFORE UPDATE ON public.user_resume_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,42 @@
+-- Soft deletion: deleted resumes stay in the owner's trash until restored or purged
+ALTER TABLE public.resumes
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX resumes_deleted_at_idx ON public.resumes (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Resumes in the trash are no longer shared publicly
+DROP POLICY "Users can view their own resumes" ON public.resumes;
+
+CREATE POLICY "Users can view their own resumes" 
+ON public.resumes 
+FOR SELECT 
+USING (auth.uid() = user_id OR (is_public = true AND deleted_at IS NULL));
+
+-- Permanently delete resumes that have been in the trash for 30 days
+CREATE OR REPLACE FUNCTION public.purge_deleted_resumes()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM public.resumes
+  WHERE deleted_at < now() - INTERVAL '30 days';
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_resumes() FROM PUBLIC, anon, authenticated;
+
+-- Run the purge nightly
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'purge-deleted-resumes',
+  '0 3 * * *',
+  $$SELECT public.purge_deleted_resumes()$$
+);
@@ -0,0 +1,45 @@
+-- Create resume_folders table for organizing resumes on the dashboard
+CREATE TABLE public.resume_folders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.resume_folders ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for folders
+CREATE POLICY "Users can view their own folders" 
+ON public.resume_folders 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own folders" 
+ON public.resume_folders 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own folders" 
+ON public.resume_folders 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own folders" 
+ON public.resume_folders 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_resume_folders_updated_at
+BEFORE UPDATE ON public.resume_folders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resumes can be filed in one folder and carry any number of tags
+ALTER TABLE public.resumes
+ADD COLUMN folder_id UUID REFERENCES public.resume_folders (id) ON DELETE SET NULL,
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX resumes_folder_id_idx ON public.resumes (folder_id);
+CREATE INDEX resumes_tags_idx ON public.resumes USING GIN (tags);
@@ -0,0 +1,25 @@
+-- Private bucket for the first-page thumbnails shown on the dashboard.
+-- Each user's thumbnails live in a folder named after their user id.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('resume-thumbnails', 'resume-thumbnails', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own resume thumbnails" 
+ON storage.objects 
+FOR SELECT 
+USING (bucket_id = 'resume-thumbnails' AND auth.uid()::TEXT = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own resume thumbnails" 
+ON storage.objects 
+FOR INSERT 
+WITH CHECK (bucket_id = 'resume-thumbnails' AND auth.uid()::TEXT = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own resume thumbnails" 
+ON storage.objects 
+FOR UPDATE 
+USING (bucket_id = 'resume-thumbnails' AND auth.uid()::TEXT = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own resume thumbnails" 
+ON storage.objects 
+FOR DELETE 
+USING (bucket_id = 'resume-thumbnails' AND auth.uid()::TEXT = (storage.foldername(name))[1]);
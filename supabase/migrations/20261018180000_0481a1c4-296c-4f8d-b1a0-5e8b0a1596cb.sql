@@ -0,0 +1,32 @@
+-- Templates become declarative definitions: regions, section placement,
+-- typography tokens and slot variants, read by every renderer. The seeded
+-- templates are rewritten from their old { layout, colors } shape; the app
+-- still reads that shape for rows added elsewhere.
+
+UPDATE public.resume_templates
+SET template_data = '{"version": 1, "colors": {"primary": "#6366f1", "secondary": "#8b5cf6"}, "typography": {"headingFont": "serif", "bodyFont": "serif", "size": 1, "leading": 1}, "regions": {"columns": "single", "sidebar": [], "sidebarFill": "tint"}, "hiddenSections": [], "slots": {"header": "centered", "heading": "rule", "list": "inline", "dates": "right"}}'::jsonb
+WHERE id = 'executive-pro';
+
+UPDATE public.resume_templates
+SET template_data = '{"version": 1, "colors": {"primary": "#ec4899", "secondary": "#f97316"}, "typography": {"headingFont": "sans", "bodyFont": "sans", "size": 1, "leading": 1}, "regions": {"columns": "sidebar-left", "sidebar": ["skills", "education", "certifications"], "sidebarFill": "gradient"}, "hiddenSections": [], "slots": {"header": "stacked", "heading": "pill", "list": "chips", "dates": "below"}}'::jsonb
+WHERE id = 'creative-edge';
+
+UPDATE public.resume_templates
+SET template_data = '{"version": 1, "colors": {"primary": "#06b6d4", "secondary": "#3b82f6"}, "typography": {"headingFont": "sans", "bodyFont": "sans", "size": 1, "leading": 1}, "regions": {"columns": "sidebar-right", "sidebar": ["skills", "education", "certifications"], "sidebarFill": "tint"}, "hiddenSections": [], "slots": {"header": "banner", "heading": "underline", "list": "list", "dates": "right"}}'::jsonb
+WHERE id = 'tech-innovator';
+
+UPDATE public.resume_templates
+SET template_data = '{"version": 1, "colors": {"primary": "#10b981", "secondary": "#14b8a6"}, "typography": {"headingFont": "sans", "bodyFont": "sans", "size": 1, "leading": 1}, "regions": {"columns": "single", "sidebar": [], "sidebarFill": "tint"}, "hiddenSections": [], "slots": {"header": "stacked", "heading": "caps", "list": "inline", "dates": "left"}}'::jsonb
+WHERE id = 'modern-minimal';
+
+UPDATE public.resume_templates
+SET template_data = '{"version": 1, "colors": {"primary": "#6366f1", "secondary": "#8b5cf6"}, "typography": {"headingFont": "sans", "bodyFont": "sans", "size": 1, "leading": 1}, "regions": {"columns": "single", "sidebar": [], "sidebarFill": "tint"}, "hiddenSections": [], "slots": {"header": "split", "heading": "bar", "list": "chips", "dates": "right"}}'::jsonb
+WHERE id = 'professional-plus';
+
+UPDATE public.resume_templates
+SET template_data = '{"version": 1, "colors": {"primary": "#f43f5e", "secondary": "#ec4899"}, "typography": {"headingFont": "display", "bodyFont": "display", "size": 1, "leading": 1}, "regions": {"columns": "sidebar-right", "sidebar": ["summary", "skills"], "sidebarFill": "tint"}, "hiddenSections": [], "slots": {"header": "centered", "heading": "pill", "list": "chips", "dates": "below"}}'::jsonb
+WHERE id = 'designers-choice';
+
+-- Definitions are validated in the app; the database only insists on an object.
+ALTER TABLE public.resume_templates
+ADD CONSTRAINT resume_templates_template_data_object CHECK (jsonb_typeof(template_data) = 'object');
@@ -0,0 +1,9 @@
+-- Only edits to what a resume shows move its updated_at. Moving it between
+-- folders, tagging, sharing or trashing it are not edits: they must not look
+-- like a concurrent save to an open editor, nor make its thumbnail stale.
+DROP TRIGGER update_resumes_updated_at ON public.resumes;
+
+CREATE TRIGGER update_resumes_updated_at
+BEFORE UPDATE OF title, content, template_id ON public.resumes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();